@@ -0,0 +1,99 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { EndTurnCommand, FortifyCommand, StartBattleCommand } from './GameCommands';
+import { GameState } from './GameState';
+import { Unit } from '../models/Unit';
+import { HexUtils } from '../utils/HexUtils';
+import { CONSTANTS } from '../utils/Constants';
+
+/**
+ * Battle under way with the player's unit standing in the middle of the map,
+ * clear of the shrinking edge
+ */
+function createBattle(): { gameState: GameState; unit: Unit } {
+  const gameState = new GameState();
+  gameState.initialize(['catapult'], 1);
+
+  const unit = gameState.playerUnits[0];
+  const center = HexUtils.create(0, 0);
+  gameState.getTileAt(center)!.obstacle = null;
+  gameState.relocateUnit(unit, center);
+
+  gameState.dispatch(new StartBattleCommand());
+  return { gameState, unit };
+}
+
+/**
+ * Pass the player's turn and the AI's, back to the start of the player's next turn
+ */
+function playRound(gameState: GameState): void {
+  gameState.dispatch(new EndTurnCommand('player'));
+  gameState.dispatch(new EndTurnCommand('ai'));
+}
+
+beforeAll(() => {
+  // Battle setup logs every step
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'debug').mockImplementation(() => {});
+});
+
+describe('FortifyCommand', () => {
+  it('restores the exact unit state when undone', () => {
+    const { gameState, unit } = createBattle();
+
+    // Already dug in once, so undo has a level to go back to
+    gameState.dispatch(new FortifyCommand(unit.id));
+    playRound(gameState);
+    const before = unit.toSnapshot();
+
+    expect(gameState.dispatch(new FortifyCommand(unit.id)).success).toBe(true);
+    expect(unit.fortifyLevel).toBe(2);
+
+    expect(gameState.undo()).toBe(true);
+    expect(unit.toSnapshot()).toEqual(before);
+    expect(unit.canFortify()).toBe(true);
+  });
+
+  it('keeps the fortifications only while the unit digs in every turn', () => {
+    const { gameState, unit } = createBattle();
+
+    gameState.dispatch(new FortifyCommand(unit.id));
+    playRound(gameState);
+    expect(unit.fortifyLevel).toBe(1);
+
+    // A turn spent doing anything else loses them
+    playRound(gameState);
+    expect(unit.fortifyLevel).toBe(0);
+  });
+
+  it('keeps the fortifications in place when digging in again at the cap', () => {
+    const { gameState, unit } = createBattle();
+
+    for (let turn = 0; turn < CONSTANTS.MAX_FORTIFY_LEVEL; turn++) {
+      gameState.dispatch(new FortifyCommand(unit.id));
+      playRound(gameState);
+    }
+    expect(unit.fortifyLevel).toBe(CONSTANTS.MAX_FORTIFY_LEVEL);
+
+    expect(gameState.dispatch(new FortifyCommand(unit.id)).success).toBe(true);
+    playRound(gameState);
+    expect(unit.fortifyLevel).toBe(CONSTANTS.MAX_FORTIFY_LEVEL);
+  });
+});
+
+describe('EndTurnCommand', () => {
+  it('makes a unit stunned during its own turn lose its next turn', () => {
+    const { gameState, unit } = createBattle();
+
+    // Caught by overwatch or return fire while acting
+    unit.addStatusEffect('stunned', true);
+    playRound(gameState);
+
+    expect(unit.hasStatusEffect('stunned')).toBe(true);
+    expect(unit.canMove()).toBe(false);
+    expect(unit.canFortify()).toBe(false);
+
+    playRound(gameState);
+    expect(unit.hasStatusEffect('stunned')).toBe(false);
+    expect(unit.canMove()).toBe(true);
+  });
+});
@@ -0,0 +1,655 @@
+/**
+ * GameCommands - Command objects for every game action
+ * Commands are validated and applied through GameState.dispatch(),
+ * which keeps the undo history for the current turn
+ */
+
+import { GameState } from './GameState';
+import { EventBus } from './EventBus';
+import { HexCoordinate } from '../models/HexCoordinate';
+import { Unit } from '../models/Unit';
+import { PathfindingService } from '../services/PathfindingService';
+import { CombatService, AttackResult } from '../services/CombatService';
+import { HexUtils } from '../utils/HexUtils';
+import { PlayerType } from '../utils/Constants';
+import { Logger } from '../utils/Logger';
+
+export type CommandType = 'deploy' | 'startBattle' | 'move' | 'rotate' | 'attack' | 'bombard' | 'overwatch' | 'fortify' | 'resupply' | 'endTurn';
+
+/**
+ * JSON-safe form of a command (used by saves and replays)
+ */
+export type CommandRecord =
+  | { type: 'deploy'; unitId: string; q: number; r: number }
+  | { type: 'startBattle' }
+  | { type: 'move'; unitId: string; q: number; r: number }
+  | { type: 'rotate'; unitId: string; facing: number }
+  | { type: 'attack'; attackerId: string; targetId: string }
+  | { type: 'bombard'; attackerId: string; q: number; r: number }
+  | { type: 'overwatch'; unitId: string }
+  | { type: 'fortify'; unitId: string }
+  | { type: 'resupply'; unitId: string }
+  | { type: 'endTurn'; owner: PlayerType };
+
+/**
+ * Outcome of a dispatched command
+ */
+export interface CommandResult {
+  success: boolean;
+  undoable: boolean;
+  attack?: AttackResult;
+  reactions?: AttackResult[]; // Overwatch shots the command provoked
+}
+
+export interface GameCommand {
+  readonly type: CommandType;
+
+  /**
+   * Check the command is legal in the given state (no side effects)
+   */
+  validate(gameState: GameState): boolean;
+
+  /**
+   * Apply the command - only called after validate() succeeded
+   */
+  execute(gameState: GameState): CommandResult;
+
+  /**
+   * Revert the command - only called for results marked undoable
+   */
+  undo?(gameState: GameState): void;
+
+  /**
+   * Serializable form for the battle action log
+   */
+  toRecord(): CommandRecord;
+}
+
+/**
+ * Rebuild a command from its record
+ */
+export function commandFromRecord(record: CommandRecord): GameCommand {
+  switch (record.type) {
+    case 'deploy':
+      return new DeployUnitCommand(record.unitId, HexUtils.create(record.q, record.r));
+    case 'startBattle':
+      return new StartBattleCommand();
+    case 'move':
+      return new MoveCommand(record.unitId, HexUtils.create(record.q, record.r));
+    case 'rotate':
+      return new RotateCommand(record.unitId, record.facing);
+    case 'attack':
+      return new AttackCommand(record.attackerId, record.targetId);
+    case 'bombard':
+      return new BombardCommand(record.attackerId, HexUtils.create(record.q, record.r));
+    case 'overwatch':
+      return new OverwatchCommand(record.unitId);
+    case 'fortify':
+      return new FortifyCommand(record.unitId);
+    case 'resupply':
+      return new ResupplyCommand(record.unitId);
+    case 'endTurn':
+      return new EndTurnCommand(record.owner);
+  }
+}
+
+/**
+ * Find a living unit by id on either side
+ */
+function findUnit(gameState: GameState, unitId: string): Unit | null {
+  const unit = [...gameState.playerUnits, ...gameState.aiUnits].find(u => u.id === unitId);
+  return unit && unit.isAlive() ? unit : null;
+}
+
+/**
+ * Place a unit on a hex of its side's deployment zone (deployment phase only)
+ * Dropping onto a friendly unit swaps the two units
+ */
+export class DeployUnitCommand implements GameCommand {
+  public readonly type = 'deploy' as const;
+  public readonly unitId: string;
+  public readonly destination: HexCoordinate;
+
+  // Captured on execute for undo
+  private previousPosition: HexCoordinate | null = null;
+  private swappedUnitId: string | null = null;
+
+  constructor(unitId: string, destination: HexCoordinate) {
+    this.unitId = unitId;
+    this.destination = destination;
+  }
+
+  validate(gameState: GameState): boolean {
+    if (gameState.phase !== 'deployment') return false;
+
+    const unit = findUnit(gameState, this.unitId);
+    if (!unit || HexUtils.equals(unit.position, this.destination)) return false;
+
+    return gameState.isValidDeploymentHex(unit.owner, this.destination);
+  }
+
+  execute(gameState: GameState): CommandResult {
+    const unit = findUnit(gameState, this.unitId)!;
+    const occupant = gameState.getTileAt(this.destination)?.occupiedBy ?? null;
+
+    this.previousPosition = unit.position;
+    this.swappedUnitId = occupant ? occupant.id : null;
+
+    gameState.relocateUnit(unit, this.destination);
+    if (occupant) {
+      gameState.relocateUnit(occupant, this.previousPosition);
+    }
+    gameState.updateVision();
+
+    Logger.info(`Deployed ${unit.type} to (${this.destination.q}, ${this.destination.r})`);
+
+    return { success: true, undoable: unit.owner === 'player' };
+  }
+
+  undo(gameState: GameState): void {
+    const unit = findUnit(gameState, this.unitId);
+    if (!unit || !this.previousPosition) return;
+
+    const swapped = this.swappedUnitId ? findUnit(gameState, this.swappedUnitId) : null;
+    gameState.relocateUnit(unit, this.previousPosition);
+    if (swapped) {
+      gameState.relocateUnit(swapped, this.destination);
+    }
+    gameState.updateVision();
+  }
+
+  toRecord(): CommandRecord {
+    return { type: 'deploy', unitId: this.unitId, q: this.destination.q, r: this.destination.r };
+  }
+}
+
+/**
+ * Confirm deployment and begin turn 1 (player moves first)
+ */
+export class StartBattleCommand implements GameCommand {
+  public readonly type = 'startBattle' as const;
+
+  validate(gameState: GameState): boolean {
+    return gameState.phase === 'deployment';
+  }
+
+  execute(gameState: GameState): CommandResult {
+    gameState.beginBattle();
+    return { success: true, undoable: false };
+  }
+
+  toRecord(): CommandRecord {
+    return { type: 'startBattle' };
+  }
+}
+
+/**
+ * Move a unit along the cheapest path to a reachable hex
+ * The unit steps hex by hex, turning to face each step - enemies on
+ * overwatch fire when it enters their zone, stopping the move on that hex
+ * (hexes held by other units are passed through without drawing fire).
+ * With the zone of control rule, ending next to an enemy uses up the
+ * unit's remaining movement
+ */
+export class MoveCommand implements GameCommand {
+  public readonly type = 'move' as const;
+  public readonly unitId: string;
+  public readonly destination: HexCoordinate;
+
+  // Captured on execute for undo
+  private previousPosition: HexCoordinate | null = null;
+  private previousFacing: number = 0;
+  private previousMovementUsed: number = 0;
+  private previousHasMoved: boolean = false;
+  private previousFortifyLevel: number = 0;
+
+  constructor(unitId: string, destination: HexCoordinate) {
+    this.unitId = unitId;
+    this.destination = destination;
+  }
+
+  validate(gameState: GameState): boolean {
+    if (gameState.phase !== 'battle') return false;
+
+    const unit = findUnit(gameState, this.unitId);
+    if (!unit || unit.owner !== gameState.currentTurn) return false;
+
+    // Can't move after attacking or without movement points
+    if (!unit.canMove()) return false;
+
+    return PathfindingService.planMove(
+      unit.position,
+      this.destination,
+      unit.getRemainingMovement(),
+      gameState,
+      unit
+    ) !== null;
+  }
+
+  execute(gameState: GameState): CommandResult {
+    const unit = findUnit(gameState, this.unitId)!;
+    const { path, stepCosts } = PathfindingService.planMove(
+      unit.position,
+      this.destination,
+      unit.getRemainingMovement(),
+      gameState,
+      unit
+    )!;
+
+    this.previousPosition = unit.position;
+    this.previousFacing = unit.facing;
+    this.previousMovementUsed = unit.movementPointsUsed;
+    this.previousHasMoved = unit.hasMovedThisTurn;
+    this.previousFortifyLevel = unit.fortifyLevel;
+
+    // Snapshot what the player knows before moving
+    const exploredBefore = gameState.visionService.getPlayerExploredTiles().size;
+    const visibleEnemiesBefore = this.getVisibleEnemyIds(gameState);
+
+    const oldPos = unit.position;
+    const travelled: HexCoordinate[] = [];
+    const reactions: AttackResult[] = [];
+    let movementCost = 0;
+
+    for (let i = 0; i < path.length; i++) {
+      const hex = path[i];
+      movementCost += stepCosts[i];
+      travelled.push(hex);
+
+      // Each step turns the engine to face where it is going
+      unit.facing = HexUtils.facingTowards(unit.position, hex);
+
+      // Hexes held by other units are passed through, never taken over
+      const passingThrough = (gameState.getTileAt(hex)?.occupiedBy ?? null) !== null;
+
+      // Update fog of war every step so watchers only react to what they see
+      gameState.relocateUnit(unit, hex, !passingThrough);
+      gameState.updateVision();
+
+      // Overwatch can only stop the unit on a hex it is free to stop on
+      if (passingThrough) continue;
+
+      reactions.push(...this.triggerOverwatch(unit, gameState));
+      if (reactions.length > 0) break;
+    }
+
+    unit.movementPointsUsed += movementCost;
+    unit.hasMovedThisTurn = true;
+    unit.fortifyLevel = 0; // Leaving the hex abandons its fortifications
+
+    // Under the zone of control rule, stopping next to an enemy ends the unit's movement
+    if (gameState.rules.zoneOfControl && PathfindingService.isInZoneOfControl(unit.position, unit.owner, gameState)) {
+      unit.movementPointsUsed = Math.max(unit.movementPointsUsed, unit.getMovementRange());
+    }
+
+    Logger.info(`Moved ${unit.type} from (${oldPos.q}, ${oldPos.r}) to (${unit.position.q}, ${unit.position.r}) - Used ${movementCost} movement (${unit.getRemainingMovement()} remaining)`);
+    if (reactions.length > 0) {
+      Logger.info(`${unit.type} was caught by overwatch fire`);
+    }
+
+    // Emit event for move sound
+    EventBus.getInstance().emit('unitMoved', { unitId: unit.id, from: oldPos, to: unit.position, path: travelled });
+
+    // Only player moves that revealed nothing new (and drew no fire) can be taken back
+    const revealedTiles = gameState.visionService.getPlayerExploredTiles().size > exploredBefore;
+    const revealedEnemies = this.getVisibleEnemyIds(gameState).some(id => !visibleEnemiesBefore.includes(id));
+
+    return {
+      success: true,
+      undoable: unit.owner === 'player' && !revealedTiles && !revealedEnemies && reactions.length === 0,
+      reactions
+    };
+  }
+
+  undo(gameState: GameState): void {
+    const unit = findUnit(gameState, this.unitId);
+    if (!unit || !this.previousPosition) return;
+
+    gameState.relocateUnit(unit, this.previousPosition);
+    unit.facing = this.previousFacing;
+    unit.movementPointsUsed = this.previousMovementUsed;
+    unit.hasMovedThisTurn = this.previousHasMoved;
+    unit.fortifyLevel = this.previousFortifyLevel;
+    gameState.updateVision();
+
+    Logger.info(`Undid move of ${unit.type} back to (${unit.position.q}, ${unit.position.r})`);
+  }
+
+  toRecord(): CommandRecord {
+    return { type: 'move', unitId: this.unitId, q: this.destination.q, r: this.destination.r };
+  }
+
+  /**
+   * Let every enemy on overwatch that can see the unit take its shot
+   */
+  private triggerOverwatch(unit: Unit, gameState: GameState): AttackResult[] {
+    const watchers = (unit.owner === 'player' ? gameState.aiUnits : gameState.playerUnits)
+      .filter(watcher => CombatService.canReactTo(watcher, unit, gameState));
+
+    const results: AttackResult[] = [];
+    for (const watcher of watchers) {
+      if (!unit.isAlive()) break;
+      Logger.info(`${watcher.type} (${watcher.owner}) fires from overwatch at ${unit.type}`);
+      results.push(CombatService.executeReactionFire(watcher, unit, gameState));
+    }
+    return results;
+  }
+
+  private getVisibleEnemyIds(gameState: GameState): string[] {
+    return gameState.aiUnits
+      .filter(enemy => enemy.isAlive() && gameState.visionService.isUnitVisibleToPlayer(enemy))
+      .map(enemy => enemy.id);
+  }
+}
+
+/**
+ * Turn a unit in place to a new facing, paying ROTATION_COST movement
+ * per 60° (the unit keeps its hex and any fortifications)
+ */
+export class RotateCommand implements GameCommand {
+  public readonly type = 'rotate' as const;
+  public readonly unitId: string;
+  public readonly facing: number;
+
+  // Captured on execute for undo
+  private previousFacing: number = 0;
+  private previousMovementUsed: number = 0;
+
+  constructor(unitId: string, facing: number) {
+    this.unitId = unitId;
+    this.facing = facing;
+  }
+
+  validate(gameState: GameState): boolean {
+    if (gameState.phase !== 'battle') return false;
+    if (!Number.isInteger(this.facing) || this.facing < 0 || this.facing > 5) return false;
+
+    const unit = findUnit(gameState, this.unitId);
+    if (!unit || unit.owner !== gameState.currentTurn) return false;
+    if (unit.facing === this.facing) return false;
+
+    // Turning uses movement, so it is over once the unit has attacked
+    return unit.canMove() && unit.getRotationCost(this.facing) <= unit.getRemainingMovement();
+  }
+
+  execute(gameState: GameState): CommandResult {
+    const unit = findUnit(gameState, this.unitId)!;
+    const cost = unit.getRotationCost(this.facing);
+
+    this.previousFacing = unit.facing;
+    this.previousMovementUsed = unit.movementPointsUsed;
+    unit.facing = this.facing;
+    unit.movementPointsUsed += cost;
+
+    Logger.info(`${unit.type} at (${unit.position.q}, ${unit.position.r}) turned to facing ${this.facing} - Used ${cost} movement (${unit.getRemainingMovement()} remaining)`);
+
+    return { success: true, undoable: unit.owner === 'player' };
+  }
+
+  undo(gameState: GameState): void {
+    const unit = findUnit(gameState, this.unitId);
+    if (!unit) return;
+
+    unit.facing = this.previousFacing;
+    unit.movementPointsUsed = this.previousMovementUsed;
+  }
+
+  toRecord(): CommandRecord {
+    return { type: 'rotate', unitId: this.unitId, facing: this.facing };
+  }
+}
+
+/**
+ * Attack an enemy unit (never undoable)
+ */
+export class AttackCommand implements GameCommand {
+  public readonly type = 'attack' as const;
+  public readonly attackerId: string;
+  public readonly targetId: string;
+
+  constructor(attackerId: string, targetId: string) {
+    this.attackerId = attackerId;
+    this.targetId = targetId;
+  }
+
+  validate(gameState: GameState): boolean {
+    if (gameState.phase !== 'battle') return false;
+
+    const attacker = findUnit(gameState, this.attackerId);
+    const target = findUnit(gameState, this.targetId);
+    if (!attacker || !target || attacker.owner !== gameState.currentTurn) return false;
+
+    return CombatService.canAttack(attacker, target, gameState);
+  }
+
+  execute(gameState: GameState): CommandResult {
+    const attacker = findUnit(gameState, this.attackerId)!;
+    const target = findUnit(gameState, this.targetId)!;
+
+    const result = CombatService.executeAttack(attacker, target, gameState);
+
+    // After attacking, unit can no longer move
+    attacker.hasMovedThisTurn = true;
+
+    return { success: result.success, undoable: false, attack: result };
+  }
+
+  toRecord(): CommandRecord {
+    return { type: 'attack', attackerId: this.attackerId, targetId: this.targetId };
+  }
+}
+
+/**
+ * Fire at a hex rather than a unit - blast weapons shelling an area, or
+ * indirect fire lobbed into an unspotted hex (never undoable)
+ */
+export class BombardCommand implements GameCommand {
+  public readonly type = 'bombard' as const;
+  public readonly attackerId: string;
+  public readonly target: HexCoordinate;
+
+  constructor(attackerId: string, target: HexCoordinate) {
+    this.attackerId = attackerId;
+    this.target = target;
+  }
+
+  validate(gameState: GameState): boolean {
+    if (gameState.phase !== 'battle') return false;
+
+    const attacker = findUnit(gameState, this.attackerId);
+    if (!attacker || attacker.owner !== gameState.currentTurn) return false;
+
+    return CombatService.canBombard(attacker, this.target, gameState);
+  }
+
+  execute(gameState: GameState): CommandResult {
+    const attacker = findUnit(gameState, this.attackerId)!;
+
+    const result = CombatService.executeBombard(attacker, this.target, gameState);
+
+    // After attacking, unit can no longer move
+    attacker.hasMovedThisTurn = true;
+
+    return { success: result.success, undoable: false, attack: result };
+  }
+
+  toRecord(): CommandRecord {
+    return { type: 'bombard', attackerId: this.attackerId, q: this.target.q, r: this.target.r };
+  }
+}
+
+/**
+ * Hold a unit's attack back to fire at the first enemy that moves into
+ * its range during the enemy's turn (ends the unit's turn)
+ */
+export class OverwatchCommand implements GameCommand {
+  public readonly type = 'overwatch' as const;
+  public readonly unitId: string;
+
+  // Captured on execute for undo
+  private previousHasMoved: boolean = false;
+  private previousMovementUsed: number = 0;
+
+  constructor(unitId: string) {
+    this.unitId = unitId;
+  }
+
+  validate(gameState: GameState): boolean {
+    if (gameState.phase !== 'battle') return false;
+
+    const unit = findUnit(gameState, this.unitId);
+    if (!unit || unit.owner !== gameState.currentTurn) return false;
+
+    return unit.canAttack();
+  }
+
+  execute(gameState: GameState): CommandResult {
+    const unit = findUnit(gameState, this.unitId)!;
+
+    this.previousHasMoved = unit.hasMovedThisTurn;
+    this.previousMovementUsed = unit.movementPointsUsed;
+    unit.enterOverwatch();
+
+    Logger.info(`${unit.type} at (${unit.position.q}, ${unit.position.r}) is on overwatch`);
+
+    return { success: true, undoable: unit.owner === 'player' };
+  }
+
+  undo(gameState: GameState): void {
+    const unit = findUnit(gameState, this.unitId);
+    if (!unit) return;
+
+    unit.overwatch = false;
+    unit.hasAttackedThisTurn = false;
+    unit.hasMovedThisTurn = this.previousHasMoved;
+    unit.movementPointsUsed = this.previousMovementUsed;
+  }
+
+  toRecord(): CommandRecord {
+    return { type: 'overwatch', unitId: this.unitId };
+  }
+}
+
+/**
+ * Dig a unit in on its hex - each consecutive turn spent fortifying reduces
+ * incoming damage further, up to a cap (ends the unit's turn). A turn spent
+ * doing anything else loses the fortifications
+ */
+export class FortifyCommand implements GameCommand {
+  public readonly type = 'fortify' as const;
+  public readonly unitId: string;
+
+  // Captured on execute for undo
+  private previousFortifyLevel: number = 0;
+  private previousFortified: boolean = false;
+  private previousHasMoved: boolean = false;
+  private previousHasAttacked: boolean = false;
+  private previousMovementUsed: number = 0;
+
+  constructor(unitId: string) {
+    this.unitId = unitId;
+  }
+
+  validate(gameState: GameState): boolean {
+    if (gameState.phase !== 'battle') return false;
+
+    const unit = findUnit(gameState, this.unitId);
+    if (!unit || unit.owner !== gameState.currentTurn) return false;
+
+    return unit.canFortify();
+  }
+
+  execute(gameState: GameState): CommandResult {
+    const unit = findUnit(gameState, this.unitId)!;
+
+    this.previousFortifyLevel = unit.fortifyLevel;
+    this.previousFortified = unit.fortifiedThisTurn;
+    this.previousHasMoved = unit.hasMovedThisTurn;
+    this.previousHasAttacked = unit.hasAttackedThisTurn;
+    this.previousMovementUsed = unit.movementPointsUsed;
+    unit.fortify();
+
+    Logger.info(`${unit.type} at (${unit.position.q}, ${unit.position.r}) fortified - level ${unit.fortifyLevel}`);
+
+    return { success: true, undoable: unit.owner === 'player' };
+  }
+
+  undo(gameState: GameState): void {
+    const unit = findUnit(gameState, this.unitId);
+    if (!unit) return;
+
+    unit.fortifyLevel = this.previousFortifyLevel;
+    unit.fortifiedThisTurn = this.previousFortified;
+    unit.hasMovedThisTurn = this.previousHasMoved;
+    unit.hasAttackedThisTurn = this.previousHasAttacked;
+    unit.movementPointsUsed = this.previousMovementUsed;
+  }
+
+  toRecord(): CommandRecord {
+    return { type: 'fortify', unitId: this.unitId };
+  }
+}
+
+/**
+ * Refill a unit's ammunition next to a supply cart or castle
+ * Takes the unit's whole turn (never undoable)
+ */
+export class ResupplyCommand implements GameCommand {
+  public readonly type = 'resupply' as const;
+  public readonly unitId: string;
+
+  constructor(unitId: string) {
+    this.unitId = unitId;
+  }
+
+  validate(gameState: GameState): boolean {
+    if (gameState.phase !== 'battle') return false;
+
+    const unit = findUnit(gameState, this.unitId);
+    if (!unit || unit.owner !== gameState.currentTurn) return false;
+
+    // Can't fire and restock in the same turn
+    if (unit.hasAttackedThisTurn || unit.ammo >= unit.getAmmoCapacity()) return false;
+
+    return gameState.isNearSupply(unit.position);
+  }
+
+  execute(gameState: GameState): CommandResult {
+    const unit = findUnit(gameState, this.unitId)!;
+    unit.resupply();
+
+    Logger.info(`Resupplied ${unit.type} at (${unit.position.q}, ${unit.position.r}) - ${unit.ammo} shots`);
+    EventBus.getInstance().emit('unitResupplied', { unitId: unit.id });
+
+    return { success: true, undoable: false };
+  }
+
+  toRecord(): CommandRecord {
+    return { type: 'resupply', unitId: this.unitId };
+  }
+}
+
+/**
+ * End the current side's turn and hand over to the other side
+ */
+export class EndTurnCommand implements GameCommand {
+  public readonly type = 'endTurn' as const;
+  public readonly owner: PlayerType;
+
+  constructor(owner: PlayerType) {
+    this.owner = owner;
+  }
+
+  validate(gameState: GameState): boolean {
+    return gameState.phase === 'battle' && gameState.currentTurn === this.owner;
+  }
+
+  execute(gameState: GameState): CommandResult {
+    gameState.switchTurn(this.owner === 'player' ? 'ai' : 'player');
+    return { success: true, undoable: false };
+  }
+
+  toRecord(): CommandRecord {
+    return { type: 'endTurn', owner: this.owner };
+  }
+}
@@ -4,13 +4,17 @@
  */
 
 import { EventBus } from './EventBus';
-import { GameState } from './GameState';
+import { GameState, BurnDamageEvent } from './GameState';
 import { Renderer } from '../rendering/Renderer';
 import { InteractionController } from '../ui/InteractionController';
 import { AIService } from '../services/AIService';
 import { SoundService } from '../services/SoundService';
 import { WeaponType } from '../utils/Constants';
 import { Logger } from '../utils/Logger';
+import { BattleSnapshot } from '../models/BattleSnapshot';
+import { BattleRules } from '../models/BattleRules';
+import { AttackExecutedEvent, KnockbackEvent, ObstacleDamagedEvent } from '../services/CombatService';
+import { EndTurnCommand, StartBattleCommand } from './GameCommands';
 import weaponFireSound from '../assets/sound/ES_Medieval, GUI, Select, Archery  - attack sound- Epidemic Sound.mp3';
 import backgroundMusic from '../assets/sound/main-theme.mp3';
 import moveSound from '../assets/sound/Machine MOVING SOUND.wav';
@@ -26,6 +30,8 @@ export class GameEngine {
   private animationFrameId: number | null = null;
   private lastFrameTime: number = 0;
   private isPaused: boolean = false;
+  private keydownHandler: (e: KeyboardEvent) => void;
+  private subscriptions: Array<{ event: string; callback: (...args: any[]) => void }> = [];
 
   constructor(canvas: HTMLCanvasElement) {
     this.eventBus = EventBus.getInstance();
@@ -43,54 +49,144 @@ export class GameEngine {
       defaultMusicVolume: 0.5
     });
     
+    this.keydownHandler = this.handleKeydown.bind(this);
     this.setupEventListeners();
     this.setupKeyboardShortcuts();
     Logger.info('GameEngine initialized');
   }
 
   private setupEventListeners(): void {
-    this.eventBus.on('unitSelected', this.handleUnitSelected.bind(this));
-    this.eventBus.on('hexClicked', this.handleHexClicked.bind(this));
-    this.eventBus.on('turnEnded', this.handleTurnEnded.bind(this));
-    this.eventBus.on('aiTurnStarted', this.handleAITurnStarted.bind(this));
-    this.eventBus.on('playerTurnStarted', this.handlePlayerTurnStarted.bind(this));
-    
-    // Sound effects
-    this.eventBus.on('attackExecuted', () => {
+    this.listen('unitSelected', this.handleUnitSelected.bind(this));
+    this.listen('hexClicked', this.handleHexClicked.bind(this));
+    this.listen('deploymentConfirmed', this.handleDeploymentConfirmed.bind(this));
+    this.listen('turnEnded', this.handleTurnEnded.bind(this));
+    this.listen('aiTurnStarted', this.handleAITurnStarted.bind(this));
+    this.listen('playerTurnStarted', this.handlePlayerTurnStarted.bind(this));
+    
+    // Sound effects and floating combat text
+    this.listen('attackExecuted', (event: AttackExecutedEvent) => {
       this.soundService.playWeaponFire();
+      this.renderer.showAttackOutcome(event);
+    });
+    
+    this.listen('unitKnockedBack', (event: KnockbackEvent) => {
+      this.renderer.showKnockback(event);
+    });
+    
+    this.listen('obstacleDamaged', (event: ObstacleDamagedEvent) => {
+      this.renderer.showObstacleDamage(event);
     });
     
-    this.eventBus.on('unitMoved', () => {
+    this.listen('burnDamage', (event: BurnDamageEvent) => {
+      this.renderer.showBurnDamage(event);
+    });
+    
+    this.listen('unitMoved', () => {
       this.soundService.playMove();
     });
     
     // Mute toggle
-    this.eventBus.on('muteToggled', () => {
+    this.listen('muteToggled', () => {
       this.soundService.toggleMute();
       this.updateMuteButtonUI();
     });
     
     // Pause/Resume
-    this.eventBus.on('gamePaused', () => {
+    this.listen('gamePaused', () => {
       this.pause();
     });
     
-    this.eventBus.on('gameResumed', () => {
+    this.listen('gameResumed', () => {
       this.resume();
     });
+    
+    // Undo last move
+    this.listen('undoRequested', () => {
+      this.handleUndo();
+    });
+    
+    // Restock the selected unit's ammunition
+    this.listen('resupplyRequested', () => {
+      this.interactionController?.tryResupply();
+    });
+    
+    // Dig the selected unit in
+    this.listen('fortifyRequested', () => {
+      this.interactionController?.tryFortify();
+    });
+    
+    // Hold the selected unit's attack for the enemy turn
+    this.listen('overwatchRequested', () => {
+      this.interactionController?.tryOverwatch();
+    });
+  }
+  
+  /**
+   * Subscribe to an EventBus event, remembering it so destroy() only
+   * removes this engine's listeners (UIController shares the bus)
+   */
+  private listen(event: string, callback: (...args: any[]) => void): void {
+    this.eventBus.on(event, callback);
+    this.subscriptions.push({ event, callback });
   }
   
   /**
    * Setup keyboard shortcuts
    */
   private setupKeyboardShortcuts(): void {
-    window.addEventListener('keydown', (e: KeyboardEvent) => {
-      // M key to toggle mute
-      if (e.key.toLowerCase() === 'm') {
-        this.soundService.toggleMute();
-        this.updateMuteButtonUI();
-      }
-    });
+    window.addEventListener('keydown', this.keydownHandler);
+  }
+
+  private handleKeydown(e: KeyboardEvent): void {
+    // Ctrl+Z / Cmd+Z to undo the last move
+    if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'z') {
+      e.preventDefault();
+      this.handleUndo();
+      return;
+    }
+    
+    // R key to resupply the selected unit
+    if (e.key.toLowerCase() === 'r' && !e.ctrlKey && !e.metaKey) {
+      this.interactionController?.tryResupply();
+      return;
+    }
+    
+    // F key to fortify the selected unit
+    if (e.key.toLowerCase() === 'f' && !e.ctrlKey && !e.metaKey) {
+      this.interactionController?.tryFortify();
+      return;
+    }
+    
+    // O key to put the selected unit on overwatch
+    if (e.key.toLowerCase() === 'o' && !e.ctrlKey && !e.metaKey) {
+      this.interactionController?.tryOverwatch();
+      return;
+    }
+    
+    // Q / E keys to turn the selected unit counter-clockwise / clockwise
+    if ((e.key.toLowerCase() === 'q' || e.key.toLowerCase() === 'e') && !e.ctrlKey && !e.metaKey) {
+      this.interactionController?.tryRotate(e.key.toLowerCase() === 'e' ? 1 : -1);
+      return;
+    }
+    
+    // M key to toggle mute
+    if (e.key.toLowerCase() === 'm') {
+      this.soundService.toggleMute();
+      this.updateMuteButtonUI();
+    }
+  }
+
+  /**
+   * Undo the player's last undoable move (player turn only)
+   */
+  private handleUndo(): void {
+    if (this.gameState.currentTurn !== 'player' || this.gameState.isAnimating) {
+      return;
+    }
+    
+    if (!this.gameState.undo()) {
+      Logger.info('Nothing to undo');
+    }
   }
   
   /**
@@ -105,10 +201,38 @@ export class GameEngine {
     }
   }
 
-  public initialize(selectedWeapon: WeaponType): void {
-    Logger.info(`Initializing game with weapon: ${selectedWeapon}`);
-    this.gameState.initialize(selectedWeapon);
+  public initialize(playerArmy: WeaponType[], seed?: number, rules?: BattleRules): void {
+    this.gameState.initialize(playerArmy, seed, rules);
+    Logger.info(`Initializing game with army: ${playerArmy.join(', ')} (seed ${this.gameState.getSeed()})`);
+    this.startSession();
+  }
+
+  /**
+   * Resume a saved battle instead of generating a new one
+   * 
+   * @param snapshot Battle saved with GameState.serialize()
+   */
+  public restore(snapshot: BattleSnapshot): void {
+    Logger.info(`Restoring saved battle (seed ${snapshot.seed}, turn ${snapshot.turnCount})`);
+    this.gameState.restore(snapshot);
+    this.startSession();
     
+    if (this.gameState.currentTurn === 'ai') {
+      this.eventBus.emit('aiTurnStarted');
+    }
+  }
+
+  /**
+   * Battles can only be saved between actions on the player's turn
+   */
+  public canSave(): boolean {
+    return this.gameState.currentTurn === 'player';
+  }
+
+  /**
+   * Shared startup once the game state is ready (new or restored battle)
+   */
+  private startSession(): void {
     // Initialize fog of war
     this.renderer.initFogOfWar(this.gameState);
     
@@ -162,7 +286,28 @@ export class GameEngine {
     // Handle hex click logic
   }
 
+  /**
+   * Player confirmed their deployment - the AI places its units and turn 1 begins
+   */
+  private handleDeploymentConfirmed(): void {
+    if (this.gameState.phase !== 'deployment' || this.gameState.isAnimating) {
+      return;
+    }
+    
+    this.aiService.deployUnits(this.gameState);
+    
+    if (this.gameState.dispatch(new StartBattleCommand()).success) {
+      Logger.info('Deployment complete - battle begins');
+      this.eventBus.emit('battleStarted');
+      this.eventBus.emit('playerTurnStarted');
+    }
+  }
+
   private handleTurnEnded(): void {
+    if (this.gameState.phase !== 'battle') {
+      return;
+    }
+    
     Logger.info('Turn ended - current turn: ' + this.gameState.currentTurn);
     
     // Check victory condition before switching turns
@@ -175,7 +320,7 @@ export class GameEngine {
     // If player just ended their turn, switch to AI
     if (this.gameState.currentTurn === 'player') {
       Logger.info('Switching to AI turn...');
-      this.gameState.switchTurn('ai');
+      this.gameState.dispatch(new EndTurnCommand('player'));
       this.eventBus.emit('aiTurnStarted');
     }
   }
@@ -266,6 +411,7 @@ export class GameEngine {
 
   public destroy(): void {
     this.stopGameLoop();
+    window.removeEventListener('keydown', this.keydownHandler);
     if (this.interactionController) {
       this.interactionController.destroy();
       this.interactionController = null;
@@ -273,7 +419,8 @@ export class GameEngine {
     if (this.soundService) {
       this.soundService.dispose();
     }
-    this.eventBus.removeAllListeners();
+    this.subscriptions.forEach(({ event, callback }) => this.eventBus.off(event, callback));
+    this.subscriptions = [];
     Logger.info('GameEngine destroyed');
   }
 }
@@ -6,10 +6,26 @@
 import { Unit } from '../models/Unit';
 import { HexTile } from '../models/HexTile';
 import { HexCoordinate } from '../models/HexCoordinate';
-import { WeaponType, PlayerType, CONSTANTS, ObstacleType } from '../utils/Constants';
+import { WeaponType, PlayerType, BattlePhase, CONSTANTS, ObstacleType } from '../utils/Constants';
 import { HexUtils } from '../utils/HexUtils';
-import { VisionService } from '../services/VisionService';
+import { WEAPON_CONFIGS } from '../models/WeaponStats';
+import { VisionService, VisibilityState } from '../services/VisionService';
 import { Obstacle } from '../models/Obstacle';
+import { RandomService } from '../services/RandomService';
+import { BattleSnapshot, BATTLE_SNAPSHOT_VERSION } from '../models/BattleSnapshot';
+import { BattleRules, DEFAULT_BATTLE_RULES } from '../models/BattleRules';
+import { GameCommand, CommandResult, CommandRecord } from './GameCommands';
+import { EventBus } from './EventBus';
+import { Logger } from '../utils/Logger';
+
+/**
+ * Payload of the 'burnDamage' event
+ */
+export interface BurnDamageEvent {
+  unitId: string;
+  position: HexCoordinate;
+  damage: number;
+}
 
 export class GameState {
   // Core state
@@ -17,32 +33,78 @@ export class GameState {
   public playerUnits: Unit[] = [];
   public aiUnits: Unit[] = [];
   public currentTurn: PlayerType = 'player';
+  public phase: BattlePhase = 'deployment';
   public selectedUnit: Unit | null = null;
   public shrinkRadius: number = CONSTANTS.GRID_RADIUS;
   public turnCount: number = 0;
   public enemiesDestroyedByPlayer: number = 0;
+  public playerArmy: WeaponType[] = ['catapult'];
+  public rules: BattleRules = { ...DEFAULT_BATTLE_RULES };
   
   // Fog of War
   public visionService: VisionService;
   
+  // Seeded RNG - all battle randomness must come from here
+  public rng: RandomService;
+  
   // Transient state
   public hoveredHex: HexCoordinate | null = null;
   public validMoveHexes: HexCoordinate[] = [];
   public validAttackHexes: HexCoordinate[] = [];
   public plannedPath: HexCoordinate[] = [];
   public isAnimating: boolean = false;
+  
+  // Undoable commands executed during the current turn (most recent last)
+  private undoStack: GameCommand[] = [];
+  
+  // Every successful command since the battle began (replay source)
+  private actionLog: CommandRecord[] = [];
+  
+  // Bumped whenever tiles, obstacles or the playable area change (invalidates cached paths)
+  private terrainRevision: number = 0;
 
   constructor() {
     this.visionService = new VisionService();
+    this.rng = new RandomService();
   }
 
-  public initialize(playerWeapon: WeaponType): void {
+  /**
+   * Set up a new battle
+   * The same seed and army always produce the same battlefield
+   * 
+   * @param playerArmy Weapon types for the player's units (within the point budget)
+   * @param seed Optional RNG seed (a fresh one is generated if omitted)
+   * @param rules Optional rules for this match
+   */
+  public initialize(
+    playerArmy: WeaponType[],
+    seed: number = RandomService.generateSeed(),
+    rules: BattleRules = DEFAULT_BATTLE_RULES
+  ): void {
+    this.rng = new RandomService(seed);
+    this.playerArmy = [...playerArmy];
+    this.rules = { ...rules };
+    
+    // Start from a clean slate so a state can be re-initialized (replays)
+    this.battlefield = new Map();
+    this.playerUnits = [];
+    this.aiUnits = [];
+    this.shrinkRadius = CONSTANTS.GRID_RADIUS;
+    this.selectedUnit = null;
+    this.validMoveHexes = [];
+    this.validAttackHexes = [];
+    this.plannedPath = [];
+    
     this.createBattlefield();
-    this.spawnUnits(playerWeapon);
+    this.markTerrainChanged();
+    this.spawnUnits(this.playerArmy, this.createAIArmy());
+    this.phase = 'deployment';
     this.currentTurn = 'player';
     this.turnCount = 0;
     this.enemiesDestroyedByPlayer = 0;
     this.visionService.reset();
+    this.undoStack = [];
+    this.actionLog = [];
     
     // Initial vision calculation
     this.updateVision();
@@ -60,65 +122,361 @@ export class GameState {
       }
     }
     
-    // Place obstacles after battlefield creation
+    // Shape the ground, lay terrain over it, then place obstacles on it
+    this.raiseHills();
+    this.paintTerrain();
     this.placeObstacles();
   }
+
+  /**
+   * Raise a few hills - each peak has MAX_ELEVATION and slopes down one
+   * level per hex (overlapping hills keep the higher value)
+   */
+  private raiseHills(): void {
+    const tiles = Array.from(this.battlefield.values());
+    
+    for (let i = 0; i < CONSTANTS.HILL_COUNT; i++) {
+      const peak = this.rng.pick(tiles).coordinate;
+      tiles.forEach(tile => {
+        const height = CONSTANTS.MAX_ELEVATION - HexUtils.distance(peak, tile.coordinate);
+        tile.elevation = Math.max(tile.elevation, height);
+      });
+    }
+  }
   
+  /**
+   * Lay terrain over the ground - a river across the middle, the main road
+   * between the two camps with its bridge, more bridges, muddy banks,
+   * forest patches and hilltops
+   */
+  private paintTerrain(): void {
+    const river = this.carveRiver();
+    
+    // The main road runs straight between the deployment anchors, bridging the river
+    HexUtils.lineDraw(this.getDeploymentAnchor('player'), this.getDeploymentAnchor('ai'))
+      .map(hex => this.getTileAt(hex))
+      .forEach(tile => tile?.setTerrain(tile.terrain === 'water' ? 'bridge' : 'road'));
+    
+    // Further crossings stay inside the final playable area and away from other bridges
+    const center = HexUtils.create(0, 0);
+    const isBridge = (tile: HexTile) => tile.terrain === 'bridge';
+    for (let crossings = 1; crossings < CONSTANTS.BRIDGE_COUNT; crossings++) {
+      const sites = river.filter(tile =>
+        tile.terrain === 'water' &&
+        HexUtils.distance(tile.coordinate, center) < CONSTANTS.MIN_SHRINK_RADIUS &&
+        river.every(other => !isBridge(other) || HexUtils.distance(tile.coordinate, other.coordinate) >= 3)
+      );
+      if (sites.length === 0) break;
+      this.rng.pick(sites).setTerrain('bridge');
+    }
+    
+    const grassNeighbors = (tile: HexTile) => HexUtils.neighbors(tile.coordinate)
+      .map(hex => this.getTileAt(hex))
+      .filter((neighbor): neighbor is HexTile => !!neighbor && neighbor.terrain === 'grass');
+    
+    // Banks churned to mud
+    river.forEach(tile => {
+      grassNeighbors(tile).forEach(bank => {
+        if (this.rng.chance(CONSTANTS.MUD_CHANCE)) {
+          bank.setTerrain('mud');
+        }
+      });
+    });
+    
+    // Forest patches - a seed hex and the grass around it
+    for (let i = 0; i < CONSTANTS.FOREST_COUNT; i++) {
+      const grass = Array.from(this.battlefield.values()).filter(tile => tile.terrain === 'grass');
+      if (grass.length === 0) break;
+      
+      const seed = this.rng.pick(grass);
+      [seed, ...grassNeighbors(seed)].forEach(tile => tile.setTerrain('forest'));
+    }
+    
+    // Hill peaks become rugged hilltops
+    this.battlefield.forEach(tile => {
+      if (tile.terrain === 'grass' && tile.elevation >= CONSTANTS.MAX_ELEVATION) {
+        tile.setTerrain('hill');
+      }
+    });
+  }
+
+  /**
+   * Carve a river from the west edge to the east edge, wandering within
+   * RIVER_BAND rows of the centre line
+   * 
+   * @returns River tiles from west to east
+   */
+  private carveRiver(): HexTile[] {
+    const river: HexTile[] = [];
+    let hex: HexCoordinate | null = HexUtils.create(-CONSTANTS.GRID_RADIUS, 0);
+    
+    while (hex) {
+      const tile = this.getTileAt(hex);
+      if (tile) {
+        tile.setTerrain('water');
+        river.push(tile);
+      }
+      
+      // Flow east, north-east or south-east
+      const next: HexCoordinate[] = [HexUtils.create(hex.q + 1, hex.r), HexUtils.create(hex.q + 1, hex.r - 1), HexUtils.create(hex.q, hex.r + 1)]
+        .filter(candidate => HexUtils.inBounds(candidate) && Math.abs(candidate.r) <= CONSTANTS.RIVER_BAND);
+      hex = next.length > 0 ? this.rng.pick(next) : null;
+    }
+    
+    return river;
+  }
+
   private placeObstacles(): void {
     const obstacleTypes: ObstacleType[] = ['ROCK_LARGE', 'ROCK_SMALL', 'TREE', 'RUIN', 'CASTLE', 'CHURCH'];
     const obstacleDensity = 0.15; // 15% of hexes will have obstacles
     const tiles = Array.from(this.battlefield.values());
     
     // Shuffle tiles for random placement
-    const shuffled = tiles.sort(() => Math.random() - 0.5);
+    const shuffled = this.rng.shuffle(tiles);
     const numObstacles = Math.floor(tiles.length * obstacleDensity);
+    const deploymentKeys = new Set(
+      [...this.getDeploymentZone('player'), ...this.getDeploymentZone('ai')].map(hex => HexUtils.toKey(hex))
+    );
+    
+    // Each side gets a supply cart just behind its deployment zone
+    for (const owner of ['player', 'ai'] as PlayerType[]) {
+      const anchor = this.getDeploymentAnchor(owner);
+      const sites = HexUtils.getHexesInRange(anchor, CONSTANTS.DEPLOYMENT_ZONE_RADIUS + 1)
+        .filter(hex => HexUtils.distance(hex, anchor) === CONSTANTS.DEPLOYMENT_ZONE_RADIUS + 1)
+        .filter(hex => HexUtils.distance(hex, HexUtils.create(0, 0)) >= 2)
+        .map(hex => this.getTileAt(hex))
+        .filter((tile): tile is HexTile => !!tile && tile.isInBounds && !tile.obstacle && tile.isPassable());
+      if (sites.length > 0) {
+        this.rng.pick(sites).obstacle = new Obstacle('SUPPLY_CART', this.rng);
+      }
+    }
     
     let placed = 0;
     for (const tile of shuffled) {
       if (placed >= numObstacles) break;
       
-      // Skip starting positions
+      // Keep deployment zones and supply carts clear
       const key = HexUtils.toKey(tile.coordinate);
-      const playerStart = HexUtils.toKey(HexUtils.create(-3, 5));
-      const aiStart = HexUtils.toKey(HexUtils.create(3, -5));
+      if (deploymentKeys.has(key) || tile.obstacle) continue;
       
-      if (key === playerStart || key === aiStart) continue;
+      // Keep the river, roads and bridges clear so crossings stay open
+      if (tile.terrain === 'water' || tile.terrain === 'road' || tile.terrain === 'bridge') continue;
       
       // Skip center area (keep spawn area clear)
       const distance = HexUtils.distance(tile.coordinate, HexUtils.create(0, 0));
       if (distance < 2) continue;
       
       // Place random obstacle
-      const randomType = obstacleTypes[Math.floor(Math.random() * obstacleTypes.length)];
-      tile.obstacle = new Obstacle(randomType);
+      const randomType = this.rng.pick(obstacleTypes);
+      tile.obstacle = new Obstacle(randomType, this.rng);
       placed++;
     }
   }
 
-  private spawnUnits(playerWeapon: WeaponType): void {
-    // Spawn player unit at bottom
-    const playerStart = HexUtils.create(-3, 5);
-    const playerUnit = new Unit('player-1', playerWeapon, 'player', playerStart);
-    this.playerUnits.push(playerUnit);
+  /**
+   * Build the AI's army from the same point budget as the player
+   * Weapons are drawn from the battle RNG so armies are reproducible
+   */
+  private createAIArmy(): WeaponType[] {
+    const army: WeaponType[] = [];
+    let budget: number = CONSTANTS.ARMY_POINT_BUDGET;
+    
+    while (army.length < CONSTANTS.MAX_ARMY_SIZE) {
+      const affordable = (Object.keys(WEAPON_CONFIGS) as WeaponType[])
+        .filter(type => WEAPON_CONFIGS[type].cost <= budget);
+      if (affordable.length === 0) break;
+      
+      const type = this.rng.pick(affordable);
+      army.push(type);
+      budget -= WEAPON_CONFIGS[type].cost;
+    }
+    
+    return army;
+  }
+
+  /**
+   * Centre hex of a side's deployment zone
+   */
+  public getDeploymentAnchor(owner: PlayerType): HexCoordinate {
+    const anchor = CONSTANTS.DEPLOYMENT_ANCHORS[owner];
+    return HexUtils.create(anchor.q, anchor.r);
+  }
+
+  /**
+   * Hexes a side may start the battle on
+   * Ordered from the zone anchor outwards so spawning is deterministic
+   */
+  public getDeploymentZone(owner: PlayerType): HexCoordinate[] {
+    const anchor = this.getDeploymentAnchor(owner);
+    
+    return HexUtils.getHexesInRange(anchor, CONSTANTS.DEPLOYMENT_ZONE_RADIUS)
+      .filter(hex => HexUtils.inBounds(hex))
+      .sort((a, b) => HexUtils.distance(a, anchor) - HexUtils.distance(b, anchor));
+  }
+
+  /**
+   * Check a side may place a unit on a hex during deployment
+   * Hexes held by a friendly unit are valid (the two units swap places)
+   */
+  public isValidDeploymentHex(owner: PlayerType, hex: HexCoordinate): boolean {
+    if (!this.getDeploymentZone(owner).some(zoneHex => HexUtils.equals(zoneHex, hex))) {
+      return false;
+    }
+    
+    const tile = this.getTileAt(hex);
+    if (!tile || !tile.isInBounds) return false;
+    if (!tile.isPassable()) return false;
+    
+    return tile.occupiedBy === null || tile.occupiedBy.owner === owner;
+  }
+
+  /**
+   * Finish deployment and hand the first turn to the player
+   */
+  public beginBattle(): void {
+    this.phase = 'battle';
+    this.currentTurn = 'player';
+    this.selectedUnit = null;
+    this.validMoveHexes = [];
+    this.validAttackHexes = [];
+    this.plannedPath = [];
+    this.updateVision();
+  }
+
+  private spawnUnits(playerArmy: WeaponType[], aiArmy: WeaponType[]): void {
+    // Player deploys at the bottom, AI at the top
+    this.spawnArmy('player', playerArmy);
+    this.spawnArmy('ai', aiArmy);
+  }
+
+  private spawnArmy(owner: PlayerType, army: WeaponType[]): void {
+    const units = owner === 'player' ? this.playerUnits : this.aiUnits;
+    const anchor = this.getDeploymentAnchor(owner);
+    
+    // Free hexes of the deployment zone first, then the nearest ones just
+    // outside it if terrain leaves the zone short - every unit paid for is fielded
+    const zone = this.getDeploymentZone(owner);
+    const fallback = HexUtils.getHexesInRange(anchor, CONSTANTS.GRID_RADIUS * 2)
+      .filter(hex => HexUtils.inBounds(hex) && HexUtils.distance(hex, anchor) > CONSTANTS.DEPLOYMENT_ZONE_RADIUS)
+      .sort((a, b) => HexUtils.distance(a, anchor) - HexUtils.distance(b, anchor));
+    const sites = [...zone, ...fallback].filter(hex => this.getTileAt(hex)?.canMoveTo());
+    
+    // Both armies start facing each other
+    const facing = HexUtils.facingTowards(anchor, this.getDeploymentAnchor(owner === 'player' ? 'ai' : 'player'));
+    
+    army.forEach((type, index) => {
+      const position = sites[index];
+      if (!position) {
+        Logger.warn(`No room on the battlefield to field ${owner} ${type}`);
+        return;
+      }
+      
+      const unit = new Unit(`${owner}-${index + 1}`, type, owner, position);
+      unit.facing = facing;
+      units.push(unit);
+      
+      const tile = this.getTileAt(position);
+      if (tile) {
+        tile.occupiedBy = unit;
+      }
+    });
+  }
+
+  /**
+   * Validate and apply a game action
+   * This is the only entry point that should mutate units during play
+   * 
+   * @param command Action to apply
+   * @returns Result of the action (success false if validation failed)
+   */
+  public dispatch(command: GameCommand): CommandResult {
+    if (!command.validate(this)) {
+      Logger.debug(`Rejected ${command.type} command`);
+      return { success: false, undoable: false };
+    }
+    
+    const result = command.execute(this);
+    
+    if (result.success) {
+      this.actionLog.push(command.toRecord());
+      
+      if (result.undoable) {
+        this.undoStack.push(command);
+      } else {
+        // Irreversible actions seal everything before them
+        this.undoStack = [];
+      }
+      EventBus.getInstance().emit('undoAvailabilityChanged', this.canUndo());
+    }
+    
+    return result;
+  }
+
+  /**
+   * Ordered record of every action taken so far this battle
+   */
+  public getActionLog(): CommandRecord[] {
+    return [...this.actionLog];
+  }
+
+  public canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  /**
+   * Revert the most recent undoable command of the current turn
+   * 
+   * @returns True if a command was undone
+   */
+  public undo(): boolean {
+    const command = this.undoStack.pop();
+    if (!command || !command.undo) return false;
     
-    const playerTile = this.getTileAt(playerStart);
-    if (playerTile) {
-      playerTile.occupiedBy = playerUnit;
+    command.undo(this);
+    
+    // The undone command is always the latest logged action
+    this.actionLog.pop();
+    
+    // Overlays were computed for the pre-undo state
+    this.selectedUnit = null;
+    this.validMoveHexes = [];
+    this.validAttackHexes = [];
+    this.plannedPath = [];
+    
+    EventBus.getInstance().emit('undoAvailabilityChanged', this.canUndo());
+    return true;
+  }
+
+  /**
+   * Move a unit to a new hex, keeping tile occupancy in sync
+   * 
+   * @param unit Unit to move
+   * @param destination Hex it moves to
+   * @param occupy False when the unit only passes through a hex another unit holds
+   */
+  public relocateUnit(unit: Unit, destination: HexCoordinate, occupy: boolean = true): void {
+    const fromTile = this.getTileAt(unit.position);
+    if (fromTile && fromTile.occupiedBy === unit) {
+      fromTile.occupiedBy = null;
     }
     
-    // Spawn AI unit at top
-    const aiStart = HexUtils.create(3, -5);
-    const aiUnit = new Unit('ai-1', 'catapult', 'ai', aiStart);
-    this.aiUnits.push(aiUnit);
+    unit.position = destination;
     
-    const aiTile = this.getTileAt(aiStart);
-    if (aiTile) {
-      aiTile.occupiedBy = aiUnit;
+    const toTile = this.getTileAt(destination);
+    if (toTile && occupy) {
+      toTile.occupiedBy = unit;
     }
   }
 
   public switchTurn(newTurn: PlayerType): void {
+    // Status effects and reloads count down at the end of their side's turn
+    this.getUnitsOf(this.currentTurn).forEach(unit => {
+      unit.tickStatusEffects();
+      unit.tickReload();
+    });
+    
     this.currentTurn = newTurn;
+    this.undoStack = [];
     this.resetUnitActions();
     this.selectedUnit = null;
     this.validMoveHexes = [];
@@ -133,12 +491,96 @@ export class GameState {
         this.shrinkRadius = Math.max(CONSTANTS.MIN_SHRINK_RADIUS, this.shrinkRadius - 1);
         this.updateBoundaries();
       }
+      
+      // Forest fires burn and spread once per round
+      this.updateFires();
     }
     
+    this.applyTurnStartEffects();
+    
     // Update vision at start of each turn
     this.updateVision();
   }
 
+  private getUnitsOf(owner: PlayerType): Unit[] {
+    return owner === 'player' ? this.playerUnits : this.aiUnits;
+  }
+
+  /**
+   * Apply status effects to the side whose turn is starting
+   * Burning units take damage (and may burn down), stunned units lose the turn
+   */
+  private applyTurnStartEffects(): void {
+    const eventBus = EventBus.getInstance();
+    
+    this.getUnitsOf(this.currentTurn).forEach(unit => {
+      if (!unit.isAlive()) return;
+      
+      if (unit.hasStatusEffect('burning')) {
+        unit.takeDamage(CONSTANTS.BURN_DAMAGE);
+        Logger.info(`${unit.type} (${unit.owner}) burns for ${CONSTANTS.BURN_DAMAGE} damage (${unit.health} HP left)`);
+        
+        const event: BurnDamageEvent = { unitId: unit.id, position: unit.position, damage: CONSTANTS.BURN_DAMAGE };
+        eventBus.emit('burnDamage', event);
+      }
+      
+      if (unit.hasStatusEffect('stunned')) {
+        unit.loseTurn();
+        Logger.info(`${unit.type} (${unit.owner}) is stunned and loses its turn`);
+      }
+    });
+    
+    this.removeDestroyedUnits(this.currentTurn);
+  }
+
+  /**
+   * Burning trees set units inside them alight, may spread to neighbouring
+   * trees and eventually burn out (fires started this round keep full duration)
+   */
+  private updateFires(): void {
+    const burningTiles = this.getAllTiles().filter(tile => tile.obstacle?.isBurning());
+    
+    burningTiles.forEach(tile => {
+      if (tile.occupiedBy && tile.occupiedBy.isAlive()) {
+        tile.occupiedBy.addStatusEffect('burning');
+      }
+      
+      HexUtils.neighbors(tile.coordinate).forEach(neighbor => {
+        const obstacle = this.getTileAt(neighbor)?.obstacle;
+        if (obstacle && obstacle.isFlammable() && !obstacle.isBurning() && this.rng.chance(CONSTANTS.FIRE_SPREAD_CHANCE)) {
+          obstacle.ignite();
+          Logger.info(`Fire spread to (${neighbor.q}, ${neighbor.r})`);
+        }
+      });
+    });
+    
+    burningTiles.forEach(tile => tile.obstacle!.burn());
+  }
+
+  /**
+   * Drop units killed outside combat from their side and free their hexes
+   */
+  private removeDestroyedUnits(owner: PlayerType): void {
+    const units = this.getUnitsOf(owner);
+    const survivors = units.filter(unit => unit.isAlive());
+    
+    units
+      .filter(unit => !unit.isAlive())
+      .forEach(unit => {
+        Logger.info(`${unit.type} (${unit.owner}) destroyed`);
+        const tile = this.getTileAt(unit.position);
+        if (tile && tile.occupiedBy === unit) {
+          tile.occupiedBy = null;
+        }
+      });
+    
+    if (owner === 'player') {
+      this.playerUnits = survivors;
+    } else {
+      this.aiUnits = survivors;
+    }
+  }
+
   private resetUnitActions(): void {
     const units = this.currentTurn === 'player' ? this.playerUnits : this.aiUnits;
     units.forEach(unit => unit.resetTurnActions());
@@ -149,6 +591,7 @@ export class GameState {
       const distance = HexUtils.distance(tile.coordinate, HexUtils.create(0, 0));
       tile.isInBounds = distance <= this.shrinkRadius;
     });
+    this.markTerrainChanged();
     
     // Kill units in the dead zone
     this.checkDeadZoneDeaths();
@@ -183,10 +626,142 @@ export class GameState {
     return null;
   }
 
+  /**
+   * Seed the current battle was generated from
+   */
+  public getSeed(): number {
+    return this.rng.getSeed();
+  }
+
+  /**
+   * Serialize the full battle to a versioned JSON-safe snapshot
+   * Transient UI state (selection, hover, overlays) is not included
+   */
+  public serialize(): BattleSnapshot {
+    return {
+      version: BATTLE_SNAPSHOT_VERSION,
+      savedAt: Date.now(),
+      seed: this.rng.getSeed(),
+      rngState: this.rng.getState(),
+      playerArmy: [...this.playerArmy],
+      rules: { ...this.rules },
+      phase: this.phase,
+      currentTurn: this.currentTurn,
+      turnCount: this.turnCount,
+      shrinkRadius: this.shrinkRadius,
+      enemiesDestroyedByPlayer: this.enemiesDestroyedByPlayer,
+      tiles: this.getAllTiles().map(tile => ({
+        q: tile.coordinate.q,
+        r: tile.coordinate.r,
+        isInBounds: tile.isInBounds,
+        elevation: tile.elevation,
+        terrain: tile.terrain,
+        obstacle: tile.obstacle ? tile.obstacle.toSnapshot() : null
+      })),
+      playerUnits: this.playerUnits.map(unit => unit.toSnapshot()),
+      aiUnits: this.aiUnits.map(unit => unit.toSnapshot()),
+      vision: this.visionService.toSnapshot(),
+      actionLog: [...this.actionLog]
+    };
+  }
+
+  /**
+   * Check if a hex is close enough to a supply cart or castle to resupply
+   */
+  public isNearSupply(coord: HexCoordinate): boolean {
+    return HexUtils.getHexesInRange(coord, CONSTANTS.SUPPLY_RANGE).some(hex => {
+      const tile = this.getTileAt(hex);
+      return !!tile && this.isSupplyPoint(tile);
+    });
+  }
+
+  /**
+   * All in-bounds supply carts and castles on the battlefield
+   */
+  public getSupplyPoints(): HexCoordinate[] {
+    return Array.from(this.battlefield.values())
+      .filter(tile => this.isSupplyPoint(tile))
+      .map(tile => tile.coordinate);
+  }
+
+  private isSupplyPoint(tile: HexTile): boolean {
+    if (!tile.isInBounds) return false;
+    return tile.obstacle?.type === 'SUPPLY_CART' || tile.obstacle?.type === 'CASTLE';
+  }
+
+  /**
+   * Rebuild this state from a snapshot produced by serialize()
+   * 
+   * @param snapshot Saved battle
+   * @throws Error if the snapshot version is not supported
+   */
+  public restore(snapshot: BattleSnapshot): void {
+    if (snapshot.version !== BATTLE_SNAPSHOT_VERSION) {
+      throw new Error(`Unsupported battle snapshot version: ${snapshot.version}`);
+    }
+    
+    this.rng = new RandomService(snapshot.seed);
+    this.rng.setState(snapshot.rngState);
+    this.playerArmy = [...snapshot.playerArmy];
+    this.rules = { ...snapshot.rules };
+    this.phase = snapshot.phase;
+    this.currentTurn = snapshot.currentTurn;
+    this.turnCount = snapshot.turnCount;
+    this.shrinkRadius = snapshot.shrinkRadius;
+    this.enemiesDestroyedByPlayer = snapshot.enemiesDestroyedByPlayer;
+    
+    // Rebuild battlefield tiles in saved order
+    this.battlefield = new Map();
+    snapshot.tiles.forEach(saved => {
+      const tile = new HexTile(HexUtils.create(saved.q, saved.r));
+      tile.isInBounds = saved.isInBounds;
+      tile.elevation = saved.elevation;
+      tile.terrain = saved.terrain;
+      tile.obstacle = saved.obstacle ? Obstacle.fromSnapshot(saved.obstacle) : null;
+      this.battlefield.set(HexUtils.toKey(tile.coordinate), tile);
+    });
+    this.markTerrainChanged();
+    
+    // Rebuild units and tile occupancy
+    this.playerUnits = snapshot.playerUnits.map(saved => Unit.fromSnapshot(saved));
+    this.aiUnits = snapshot.aiUnits.map(saved => Unit.fromSnapshot(saved));
+    [...this.playerUnits, ...this.aiUnits].forEach(unit => {
+      const tile = this.getTileAt(unit.position);
+      if (tile) {
+        tile.occupiedBy = unit;
+      }
+    });
+    
+    // Restore fog of war exactly as saved (no recalculation)
+    this.visionService.restoreSnapshot(snapshot.vision);
+    this.refreshTileVisibility();
+    
+    // Reset transient state
+    this.selectedUnit = null;
+    this.hoveredHex = null;
+    this.validMoveHexes = [];
+    this.validAttackHexes = [];
+    this.plannedPath = [];
+    this.isAnimating = false;
+    this.undoStack = [];
+    this.actionLog = [...snapshot.actionLog];
+  }
+
   public getTileAt(coord: HexCoordinate): HexTile | null {
     return this.battlefield.get(HexUtils.toKey(coord)) || null;
   }
 
+  /**
+   * Record that the battlefield's tiles, obstacles or playable area changed
+   */
+  public markTerrainChanged(): void {
+    this.terrainRevision++;
+  }
+
+  public getTerrainRevision(): number {
+    return this.terrainRevision;
+  }
+
   public getAllTiles(): HexTile[] {
     return Array.from(this.battlefield.values());
   }
@@ -206,9 +781,19 @@ export class GameState {
       this.battlefield
     );
     
-    // Update tile visibility states from VisionService
+    this.refreshTileVisibility();
+  }
+
+  /**
+   * Update tile visibility states from VisionService
+   * Omniscient (reveal-all) mode shows every tile without touching vision data
+   */
+  public refreshTileVisibility(): void {
+    const revealAll = this.visionService.isRevealAll();
     this.battlefield.forEach((tile, key) => {
-      tile.visibilityForPlayer = this.visionService.getTileVisibilityForPlayer(key);
+      tile.visibilityForPlayer = revealAll
+        ? VisibilityState.VISIBLE
+        : this.visionService.getTileVisibilityForPlayer(key);
     });
   }
 }
@@ -0,0 +1,187 @@
+/**
+ * ReplayViewer - Replay Playback Orchestrator
+ * Re-simulates a recorded battle and renders it with playback controls
+ */
+
+import { EventBus } from './EventBus';
+import { GameState } from './GameState';
+import { Renderer } from '../rendering/Renderer';
+import { ReplayService } from '../services/ReplayService';
+import { BattleReplay, ReplaySpeed, ReplayStatus } from '../models/Replay';
+import { Logger } from '../utils/Logger';
+
+export class ReplayViewer {
+  private replay: BattleReplay;
+  private gameState: GameState;
+  private renderer: Renderer;
+  private eventBus: EventBus;
+  private turnStarts: number[];
+  private position: number = 0; // Number of actions applied
+  private speed: ReplaySpeed = 1;
+  private omniscient: boolean = false;
+  private playTimer: number | null = null;
+  private animationFrameId: number | null = null;
+
+  // Base delay between actions at 1x speed
+  private static readonly ACTION_INTERVAL_MS = 800;
+
+  constructor(canvas: HTMLCanvasElement, replay: BattleReplay) {
+    this.replay = replay;
+    this.eventBus = EventBus.getInstance();
+    this.renderer = new Renderer(canvas);
+    this.gameState = new GameState();
+    this.turnStarts = ReplayService.getTurnStarts(replay);
+    this.seek(0);
+    Logger.info(`ReplayViewer loaded (${replay.actions.length} actions, ${this.turnStarts.length} turns)`);
+  }
+
+  public start(): void {
+    const renderLoop = () => {
+      this.renderer.render(this.gameState);
+      this.animationFrameId = requestAnimationFrame(renderLoop);
+    };
+    this.animationFrameId = requestAnimationFrame(renderLoop);
+    this.emitStatus();
+  }
+
+  public play(): void {
+    if (this.playTimer !== null) return;
+    
+    // Restart from the beginning if the replay already finished
+    if (this.position >= this.replay.actions.length) {
+      this.seek(0);
+    }
+    
+    this.scheduleNextAction();
+    this.emitStatus();
+  }
+
+  public pause(): void {
+    if (this.playTimer !== null) {
+      clearTimeout(this.playTimer);
+      this.playTimer = null;
+    }
+    this.emitStatus();
+  }
+
+  public togglePlay(): void {
+    if (this.playTimer !== null) {
+      this.pause();
+    } else {
+      this.play();
+    }
+  }
+
+  /**
+   * Jump to the start of the next turn
+   */
+  public stepForward(): void {
+    const next = this.turnStarts.find(start => start > this.position);
+    this.seek(next ?? this.replay.actions.length);
+  }
+
+  /**
+   * Jump to the start of the current turn, or the previous one if already there
+   */
+  public stepBack(): void {
+    const previous = [...this.turnStarts].reverse().find(start => start < this.position);
+    this.seek(previous ?? 0);
+  }
+
+  /**
+   * Cycle playback speed 1x -> 2x -> 4x
+   */
+  public cycleSpeed(): void {
+    this.speed = this.speed === 1 ? 2 : this.speed === 2 ? 4 : 1;
+    this.emitStatus();
+  }
+
+  /**
+   * Toggle between the player's fog of war and an omniscient view
+   */
+  public toggleOmniscient(): void {
+    this.omniscient = !this.omniscient;
+    this.gameState.visionService.setRevealAll(this.omniscient);
+    this.gameState.refreshTileVisibility();
+    this.emitStatus();
+  }
+
+  public getStatus(): ReplayStatus {
+    return {
+      turn: this.getTurnIndex() + 1,
+      totalTurns: this.turnStarts.length,
+      action: this.position,
+      totalActions: this.replay.actions.length,
+      isPlaying: this.playTimer !== null,
+      speed: this.speed,
+      omniscient: this.omniscient
+    };
+  }
+
+  public destroy(): void {
+    if (this.playTimer !== null) {
+      clearTimeout(this.playTimer);
+      this.playTimer = null;
+    }
+    if (this.animationFrameId !== null) {
+      cancelAnimationFrame(this.animationFrameId);
+      this.animationFrameId = null;
+    }
+    this.renderer.setReplayStatus(null);
+    Logger.info('ReplayViewer destroyed');
+  }
+
+  /**
+   * Rebuild the battle after `actionCount` actions
+   * Forward seeks reuse the current state, backward seeks re-simulate from the seed
+   */
+  private seek(actionCount: number): void {
+    const target = Math.max(0, Math.min(actionCount, this.replay.actions.length));
+    
+    if (target < this.position || this.position === 0) {
+      ReplayService.simulate(this.replay, target, this.gameState);
+    } else {
+      for (let i = this.position; i < target; i++) {
+        ReplayService.applyAction(this.replay, i, this.gameState);
+      }
+    }
+    
+    this.position = target;
+    this.gameState.visionService.setRevealAll(this.omniscient);
+    this.gameState.refreshTileVisibility();
+    this.emitStatus();
+  }
+
+  private scheduleNextAction(): void {
+    const delay = ReplayViewer.ACTION_INTERVAL_MS / this.speed;
+    this.playTimer = window.setTimeout(() => {
+      this.playTimer = null;
+      
+      if (this.position >= this.replay.actions.length) {
+        this.emitStatus();
+        return;
+      }
+      
+      this.seek(this.position + 1);
+      
+      if (this.position < this.replay.actions.length) {
+        this.scheduleNextAction();
+      }
+      this.emitStatus();
+    }, delay);
+  }
+
+  private getTurnIndex(): number {
+    let index = 0;
+    this.turnStarts.forEach((start, i) => {
+      if (start <= this.position) index = i;
+    });
+    return index;
+  }
+
+  private emitStatus(): void {
+    const status = this.getStatus();
+    this.renderer.setReplayStatus(status);
+    this.eventBus.emit('replayStatusChanged', status);
+  }
+}
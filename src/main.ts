@@ -10,10 +10,18 @@ import { Logger } from './utils/Logger';
 import { PathfindingService } from './services/PathfindingService';
 import { CombatService } from './services/CombatService';
 import { HexUtils } from './utils/HexUtils';
+import { RandomService } from './services/RandomService';
+import { BattleRepository } from './services/BattleRepository';
+import { ReplayViewer } from './core/ReplayViewer';
+import { BattleReplay } from './models/Replay';
+import { isValidArmy } from './models/WeaponStats';
+import { BattleRules, DEFAULT_BATTLE_RULES } from './models/BattleRules';
+import { CONSTANTS, WeaponType } from './utils/Constants';
 import './styles/main.css';
 
 class SiegeTactics {
   private gameEngine: GameEngine | null = null;
+  public replayViewer: ReplayViewer | null = null;
   public uiController: UIController;
 
   constructor() {
@@ -38,8 +46,33 @@ class SiegeTactics {
     this.uiController.showMainMenu(progress);
   }
 
-  public startBattle(selectedWeapon: string): void {
-    Logger.info(`Starting battle with weapon: ${selectedWeapon}`);
+  /**
+   * Start a new battle
+   * 
+   * @param army Player weapon types (a single weapon name is accepted for console use)
+   * @param seed Optional battle seed - reuse one from a victory screen to replay the same battlefield
+   * @param rules Optional match rules (e.g. { counterFire: true, zoneOfControl: true })
+   */
+  public startBattle(army: string | string[], seed?: number | string, rules: Partial<BattleRules> = {}): void {
+    const playerArmy = (Array.isArray(army) ? army : [army]) as WeaponType[];
+    if (!isValidArmy(playerArmy)) {
+      Logger.warn(`Invalid army: ${playerArmy.join(', ')} (budget ${CONSTANTS.ARMY_POINT_BUDGET} points, max ${CONSTANTS.MAX_ARMY_SIZE} units)`);
+      return;
+    }
+    
+    Logger.info(`Starting battle with army: ${playerArmy.join(', ')}`);
+    
+    let battleSeed: number | undefined;
+    if (seed !== undefined) {
+      const parsed = RandomService.parseSeed(seed);
+      if (parsed === null) {
+        Logger.warn(`Invalid seed "${seed}" - using a random seed instead`);
+      } else {
+        battleSeed = parsed;
+      }
+    }
+    
+    this.exitReplay();
     
     // Clean up old game engine if exists (prevents duplicate music)
     if (this.gameEngine) {
@@ -49,11 +82,87 @@ class SiegeTactics {
     
     const canvas = document.getElementById('game-canvas') as HTMLCanvasElement;
     this.gameEngine = new GameEngine(canvas);
-    this.gameEngine.initialize(selectedWeapon as any);
+    this.gameEngine.initialize(playerArmy, battleSeed, { ...DEFAULT_BATTLE_RULES, ...rules });
     
     this.uiController.showBattleUI();
   }
 
+  /**
+   * Resume the battle stored by saveAndQuit()
+   */
+  public continueBattle(): void {
+    const snapshot = BattleRepository.load();
+    if (!snapshot) {
+      Logger.warn('No saved battle to continue');
+      this.showMainMenu();
+      return;
+    }
+    
+    if (this.gameEngine) {
+      this.gameEngine.destroy();
+      this.gameEngine = null;
+    }
+    
+    const canvas = document.getElementById('game-canvas') as HTMLCanvasElement;
+    this.gameEngine = new GameEngine(canvas);
+    
+    try {
+      this.gameEngine.restore(snapshot);
+    } catch (error) {
+      Logger.error('Failed to restore saved battle', error);
+      BattleRepository.clear();
+      this.endBattle();
+      this.showMainMenu();
+      return;
+    }
+    
+    this.uiController.showBattleUI();
+    this.uiController.updateTurnIndicator(snapshot.currentTurn);
+  }
+
+  public canSaveBattle(): boolean {
+    return this.gameEngine !== null && this.gameEngine.canSave();
+  }
+
+  /**
+   * Persist the current battle and leave it
+   * 
+   * @returns True if the battle was saved
+   */
+  public saveAndQuit(): boolean {
+    if (!this.gameEngine || !this.gameEngine.canSave()) {
+      Logger.warn('Battle can only be saved during your turn');
+      return false;
+    }
+    
+    const saved = BattleRepository.save(this.gameEngine.getGameState().serialize());
+    if (saved) {
+      this.endBattle();
+    }
+    return saved;
+  }
+
+  /**
+   * Open the replay viewer for a recorded battle
+   */
+  public watchReplay(replay: BattleReplay): void {
+    this.endBattle();
+    this.exitReplay();
+    
+    this.uiController.showReplayUI();
+    
+    const canvas = document.getElementById('game-canvas') as HTMLCanvasElement;
+    this.replayViewer = new ReplayViewer(canvas, replay);
+    this.replayViewer.start();
+  }
+
+  public exitReplay(): void {
+    if (this.replayViewer) {
+      this.replayViewer.destroy();
+      this.replayViewer = null;
+    }
+  }
+
   public endBattle(): void {
     if (this.gameEngine) {
       this.gameEngine.destroy();
@@ -74,14 +183,22 @@ document.addEventListener('DOMContentLoaded', () => {
   (window as any).CombatService = CombatService;
   (window as any).HexUtils = HexUtils;
   
+  // Benchmark harness only ships with the dev server
+  if (import.meta.env.DEV) {
+    import('./services/PathfindingBenchmark').then(({ PathfindingBenchmark }) => {
+      (window as any).PathfindingBenchmark = PathfindingBenchmark;
+    });
+  }
+  
   Logger.info('=== Siege Tactics Ready! ===');
   Logger.info('🎮 GAMEPLAY:');
-  Logger.info('1. Start battle: siegeTactics.startBattle("catapult")');
-  Logger.info('2. Click your unit (bottom) to select');
-  Logger.info('3. Blue overlay = movement, Red overlay = attack range');
-  Logger.info('4. Click hex to move, or enemy to attack');
-  Logger.info('5. Click "END TURN" button to let AI play');
-  Logger.info('6. Watch turn indicator (blue=player, red=AI)');
-  Logger.info('7. Destroy all enemies to win!');
+  Logger.info('1. Start battle: siegeTactics.startBattle(["catapult", "catapult"]) or siegeTactics.startBattle(["ballista"], seed, { counterFire: true })');
+  Logger.info('2. Drag your units around the green deployment zone, then click "BEGIN BATTLE"');
+  Logger.info('3. Click one of your units (bottom) to select');
+  Logger.info('4. Blue overlay = movement, Red overlay = attack range');
+  Logger.info('5. Click hex to move, or enemy to attack');
+  Logger.info('6. Click "END TURN" button to let AI play');
+  Logger.info('7. Watch turn indicator (blue=player, red=AI)');
+  Logger.info('8. Destroy all enemies to win!');
 });
 
@@ -0,0 +1,23 @@
+/**
+ * BattleRules Model
+ * Optional rules chosen per match (saved with the battle and its replay)
+ */
+
+export interface BattleRules {
+  counterFire: boolean; // Defenders that survive immediately return fire at reduced damage
+  zoneOfControl: boolean; // Moving next to an enemy ends the move, moving away costs extra
+}
+
+export const DEFAULT_BATTLE_RULES: BattleRules = {
+  counterFire: false,
+  zoneOfControl: false
+};
+
+/**
+ * Check imported data holds a complete set of rules
+ */
+export function isValidBattleRules(rules: unknown): rules is BattleRules {
+  return !!rules && typeof rules === 'object' &&
+    typeof (rules as BattleRules).counterFire === 'boolean' &&
+    typeof (rules as BattleRules).zoneOfControl === 'boolean';
+}
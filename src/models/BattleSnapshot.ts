@@ -0,0 +1,78 @@
+/**
+ * BattleSnapshot Model
+ * Versioned JSON representation of an in-progress battle (persisted to LocalStorage)
+ */
+
+import { BattlePhase, ObstacleType, PlayerType, TerrainType, WeaponType } from '../utils/Constants';
+import { StatusEffect } from './StatusEffect';
+import { BattleRules } from './BattleRules';
+import { CommandRecord } from '../core/GameCommands';
+
+/**
+ * Bump whenever the snapshot layout changes - older saves are discarded
+ */
+export const BATTLE_SNAPSHOT_VERSION = 15;
+
+export interface ObstacleSnapshot {
+  type: ObstacleType;
+  assetPath: string;
+  health: number;
+  burningTurns: number;
+  burntOut: boolean;
+}
+
+export interface TileSnapshot {
+  q: number;
+  r: number;
+  isInBounds: boolean;
+  elevation: number;
+  terrain: TerrainType;
+  obstacle: ObstacleSnapshot | null;
+}
+
+export interface UnitSnapshot {
+  id: string;
+  type: WeaponType;
+  owner: PlayerType;
+  q: number;
+  r: number;
+  facing: number;
+  health: number;
+  maxHealth: number;
+  hasMovedThisTurn: boolean;
+  hasAttackedThisTurn: boolean;
+  movementPointsUsed: number;
+  statusEffects: StatusEffect[];
+  ammo: number;
+  reloadTurnsRemaining: number;
+  overwatch: boolean;
+  fortifyLevel: number;
+  fortifiedThisTurn: boolean;
+  hasReturnedFireThisTurn: boolean;
+}
+
+export interface VisionSnapshot {
+  playerVisibleTiles: string[];
+  playerExploredTiles: string[];
+  aiVisibleTiles: string[];
+  aiExploredTiles: string[];
+}
+
+export interface BattleSnapshot {
+  version: number;
+  savedAt: number;
+  seed: number;
+  rngState: number;
+  playerArmy: WeaponType[];
+  rules: BattleRules;
+  phase: BattlePhase;
+  currentTurn: PlayerType;
+  turnCount: number;
+  shrinkRadius: number;
+  enemiesDestroyedByPlayer: number;
+  tiles: TileSnapshot[];
+  playerUnits: UnitSnapshot[];
+  aiUnits: UnitSnapshot[];
+  vision: VisionSnapshot;
+  actionLog: CommandRecord[];
+}
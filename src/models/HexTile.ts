@@ -7,6 +7,8 @@ import { HexCoordinate } from './HexCoordinate';
 import { Unit } from './Unit';
 import { VisibilityState } from '../services/VisionService';
 import { Obstacle } from './Obstacle';
+import { TerrainStats, TERRAIN_CONFIGS } from './Terrain';
+import { TerrainType } from '../utils/Constants';
 
 export class HexTile {
   public coordinate: HexCoordinate;
@@ -15,6 +17,8 @@ export class HexTile {
   public isInBounds: boolean = true;
   public occupiedBy: Unit | null = null;
   public obstacle: Obstacle | null = null;
+  public terrain: TerrainType = 'grass';
+  public elevation: number = 0; // 0 = flat ground, up to CONSTANTS.MAX_ELEVATION
   public visibilityForPlayer: VisibilityState = VisibilityState.UNEXPLORED;
 
   constructor(coordinate: HexCoordinate) {
@@ -22,11 +26,39 @@ export class HexTile {
   }
 
   isEmpty(): boolean {
-    return this.occupiedBy === null && (this.obstacle === null || this.obstacle.movementCost < Infinity);
+    return this.occupiedBy === null && this.isPassable();
   }
 
   canMoveTo(): boolean {
-    return this.occupiedBy === null && this.isInBounds && (this.obstacle === null || this.obstacle.movementCost < Infinity);
+    return this.occupiedBy === null && this.isInBounds && this.isPassable();
+  }
+
+  public getTerrainStats(): TerrainStats {
+    return TERRAIN_CONFIGS[this.terrain];
+  }
+
+  /**
+   * Movement points to enter this hex - 1 base, adjusted by terrain and obstacle
+   * 
+   * @returns Cost to enter (Infinity = impassable)
+   */
+  public getMovementCost(): number {
+    return 1 + this.getTerrainStats().movementCost + (this.obstacle?.movementCost ?? 0);
+  }
+
+  /**
+   * Check units can enter this hex (no river without a bridge, no solid obstacle)
+   */
+  public isPassable(): boolean {
+    return this.getMovementCost() < Infinity;
+  }
+
+  /**
+   * Change the ground type, raising the hex by the new terrain's elevation
+   */
+  public setTerrain(terrain: TerrainType): void {
+    this.elevation += TERRAIN_CONFIGS[terrain].elevation - this.getTerrainStats().elevation;
+    this.terrain = terrain;
   }
 
   /**
@@ -1,4 +1,6 @@
-import { ObstacleType } from '../utils/Constants';
+import { CONSTANTS, ObstacleType } from '../utils/Constants';
+import { RandomService } from '../services/RandomService';
+import { ObstacleSnapshot } from './BattleSnapshot';
 import rockGreyLarge from '../assets/PNG/Objects/rockGrey_large.png';
 import rockBrownLarge from '../assets/PNG/Objects/rockBrown_large.png';
 import rockGreySmall1 from '../assets/PNG/Objects/rockGrey_small1.png';
@@ -10,6 +12,9 @@ import ruinsCorner from '../assets/PNG/Objects/ruinsCorner.png';
 import ruinsBrick1 from '../assets/PNG/Objects/ruins_brick1.png';
 import castleLarge from '../assets/PNG/Objects/castle_large.png';
 import church from '../assets/PNG/Objects/church.png';
+import ruinsBrick2 from '../assets/PNG/Objects/ruins_brick2.png';
+import rockGreyMedium3 from '../assets/PNG/Objects/rockGrey_medium3.png';
+import cargo from '../assets/PNG/Objects/cargo.png';
 
 /**
  * Obstacle - Represents a blocking or decorative element on the battlefield
@@ -19,17 +24,108 @@ export class Obstacle {
   public assetPath: string;
   public movementCost: number; // Infinity = impassable, 0.5 = difficult terrain, 0 = no cost
   public blocksLineOfSight: boolean;
+  public coverValue: number; // Damage reduction for a unit inside (0 = no cover)
+  public maxHealth: number; // 0 = indestructible
+  public health: number;
+  public burningTurns: number = 0; // Rounds left to burn (0 = not on fire)
+  public burntOut: boolean = false; // Already burned - can't catch fire again
   public scale: number;
 
-  constructor(type: ObstacleType) {
+  constructor(type: ObstacleType, rng: RandomService) {
     this.type = type;
-    this.assetPath = this.getAssetPath(type);
+    this.assetPath = this.getAssetPath(type, rng);
     this.movementCost = this.getMovementCost(type);
     this.blocksLineOfSight = this.blocksLOS(type);
+    this.coverValue = this.getCoverValue(type);
+    this.maxHealth = this.getMaxHealth(type);
+    this.health = this.maxHealth;
     this.scale = this.getScale(type);
   }
 
-  private getAssetPath(type: ObstacleType): string {
+  /**
+   * Rebuild an obstacle from a saved battle (keeps the saved sprite variant)
+   */
+  public static fromSnapshot(snapshot: ObstacleSnapshot): Obstacle {
+    const obstacle = new Obstacle(snapshot.type, new RandomService(0));
+    obstacle.assetPath = snapshot.assetPath;
+    obstacle.health = snapshot.health;
+    obstacle.burningTurns = snapshot.burningTurns;
+    obstacle.burntOut = snapshot.burntOut;
+    return obstacle;
+  }
+
+  public toSnapshot(): ObstacleSnapshot {
+    return {
+      type: this.type,
+      assetPath: this.assetPath,
+      health: this.health,
+      burningTurns: this.burningTurns,
+      burntOut: this.burntOut
+    };
+  }
+
+  /**
+   * Siege targets (buildings and ruins) can be knocked down
+   */
+  public isDestructible(): boolean {
+    return this.maxHealth > 0;
+  }
+
+  /**
+   * Below half health - drawn battered
+   */
+  public isDamaged(): boolean {
+    return this.isDestructible() && this.health <= this.maxHealth / 2;
+  }
+
+  /**
+   * Trees catch fire from incendiary hits and from neighbouring fires
+   */
+  public isFlammable(): boolean {
+    return this.type === 'TREE' && !this.burntOut;
+  }
+
+  public isBurning(): boolean {
+    return this.burningTurns > 0;
+  }
+
+  /**
+   * Set the obstacle alight (no effect on non-flammable obstacles)
+   * 
+   * @returns True if the obstacle caught fire
+   */
+  public ignite(): boolean {
+    if (!this.isFlammable() || this.isBurning()) return false;
+    
+    this.burningTurns = CONSTANTS.TREE_BURN_DURATION;
+    return true;
+  }
+
+  /**
+   * Burn for one round - the fire dies out once its duration is spent
+   */
+  public burn(): void {
+    if (!this.isBurning()) return;
+    
+    this.burningTurns--;
+    if (this.burningTurns === 0) {
+      this.burntOut = true;
+    }
+  }
+
+  /**
+   * Apply damage (no effect on indestructible obstacles)
+   * 
+   * @returns True if this hit brought the obstacle down
+   */
+  public takeDamage(amount: number): boolean {
+    if (!this.isDestructible() || this.health <= 0) return false;
+    
+    this.health = Math.max(0, this.health - amount);
+    return this.health === 0;
+  }
+
+  private getAssetPath(type: ObstacleType, rng: RandomService): string {
     const assetMap: Record<ObstacleType, string[]> = {
       ROCK_LARGE: [
         rockGreyLarge,
@@ -49,19 +145,24 @@ export class Obstacle {
         ruinsBrick1
       ],
       CHURCH: [church],
-      CASTLE: [castleLarge]
+      CASTLE: [castleLarge],
+      RUBBLE: [
+        ruinsBrick2,
+        rockGreyMedium3
+      ],
+      SUPPLY_CART: [cargo]
     };
 
     const variants = assetMap[type];
-    return variants[Math.floor(Math.random() * variants.length)];
+    return rng.pick(variants);
   }
 
   private getMovementCost(type: ObstacleType): number {
     // Impassable obstacles
-    if (['ROCK_LARGE', 'CASTLE', 'CHURCH'].includes(type)) {
+    if (['ROCK_LARGE', 'CASTLE', 'CHURCH', 'SUPPLY_CART'].includes(type)) {
       return Infinity;
     }
-    // Difficult terrain (costs extra movement)
+    // Difficult terrain (costs extra movement) - rubble included
     return 0.5;
   }
 
@@ -70,6 +171,27 @@ export class Obstacle {
     return ['ROCK_LARGE', 'TREE', 'RUIN', 'WALL'].includes(type);
   }
 
+  private getCoverValue(type: ObstacleType): number {
+    // Passable obstacles a unit can shelter in or behind
+    switch(type) {
+      case 'TREE': return 0.25;
+      case 'RUIN': return 0.35;
+      case 'ROCK_SMALL': return 0.2;
+      case 'RUBBLE': return 0.1;
+      default: return 0;
+    }
+  }
+
+  private getMaxHealth(type: ObstacleType): number {
+    // Only buildings and ruins can be brought down
+    switch(type) {
+      case 'CASTLE': return 150;
+      case 'CHURCH': return 100;
+      case 'RUIN': return 60;
+      default: return 0;
+    }
+  }
+
   private getScale(type: ObstacleType): number {
     // Scale relative to hex size
     switch(type) {
@@ -79,6 +201,8 @@ export class Obstacle {
       case 'RUIN': return 1.0;
       case 'CASTLE': return 0.5;
       case 'CHURCH': return 0.7;
+      case 'RUBBLE': return 0.6;
+      case 'SUPPLY_CART': return 0.6;
       default: return 0.7;
     }
   }
@@ -0,0 +1,40 @@
+/**
+ * Replay Model
+ * A finished battle stored as seed + ordered action log
+ * Playback re-simulates the battle, so replays stay tiny
+ */
+
+import { WeaponType } from '../utils/Constants';
+import { CommandRecord } from '../core/GameCommands';
+import { BattleRules } from './BattleRules';
+
+/**
+ * Bump only when the replay layout changes so older files can no longer be read
+ */
+export const REPLAY_VERSION = 5;
+
+export interface BattleReplay {
+  version: number;
+  recordedAt: number;
+  seed: number;
+  playerArmy: WeaponType[];
+  rules: BattleRules;
+  victor: 'player' | 'ai';
+  turnCount: number;
+  actions: CommandRecord[];
+}
+
+export type ReplaySpeed = 1 | 2 | 4;
+
+/**
+ * Playback position shown by the replay viewer
+ */
+export interface ReplayStatus {
+  turn: number;
+  totalTurns: number;
+  action: number;
+  totalActions: number;
+  isPlaying: boolean;
+  speed: ReplaySpeed;
+  omniscient: boolean;
+}
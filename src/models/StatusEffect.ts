@@ -0,0 +1,37 @@
+/**
+ * StatusEffect Model
+ * Lingering conditions on a unit, counted down in the unit's own turns
+ */
+
+import { CONSTANTS, StatusEffectType } from '../utils/Constants';
+
+export interface StatusEffect {
+  type: StatusEffectType;
+  turnsRemaining: number; // Own turns the effect is still active for
+}
+
+/**
+ * Chance for a weapon's hits to inflict a status effect
+ */
+export interface OnHitEffect {
+  type: StatusEffectType;
+  chance: number; // 0-1, rolled once per hit
+}
+
+/**
+ * Turns each effect lasts when freshly applied
+ */
+export const STATUS_EFFECT_DURATIONS: Record<StatusEffectType, number> = {
+  burning: CONSTANTS.BURN_DURATION,
+  stunned: CONSTANTS.STUN_DURATION,
+  slowed: CONSTANTS.SLOW_DURATION
+};
+
+/**
+ * Short names for tooltips and combat text
+ */
+export const STATUS_EFFECT_LABELS: Record<StatusEffectType, string> = {
+  burning: 'Burn',
+  stunned: 'Stun',
+  slowed: 'Slow'
+};
@@ -0,0 +1,92 @@
+/**
+ * Terrain Model
+ * Ground types under each hex - how they slow movement, change sight range,
+ * shelter units and raise the ground
+ */
+
+import { TerrainType } from '../utils/Constants';
+
+export interface TerrainStats {
+  type: TerrainType;
+  displayName: string;
+  movementCost: number; // Added to the 1 point every hex costs (Infinity = impassable, negative = faster)
+  visionModifier: number; // Sight range change for units standing here
+  cover: number; // Damage absorbed by units standing here (0-1)
+  elevation: number; // Levels the terrain raises the ground it covers
+  topColors: [string, string]; // Top face gradient (light, dark)
+  sideColor: string;
+}
+
+// Static terrain configurations
+export const TERRAIN_CONFIGS: Record<TerrainType, TerrainStats> = {
+  grass: {
+    type: 'grass',
+    displayName: 'Grass',
+    movementCost: 0,
+    visionModifier: 0,
+    cover: 0,
+    elevation: 0,
+    topColors: ['#9bc45f', '#7a9b3f'],
+    sideColor: '#5a7a3a'
+  },
+  forest: {
+    type: 'forest',
+    displayName: 'Forest',
+    movementCost: 0.5,
+    visionModifier: -1, // The canopy hides what lies beyond
+    cover: 0.2,
+    elevation: 0,
+    topColors: ['#5f8f3a', '#42702a'],
+    sideColor: '#34552a'
+  },
+  hill: {
+    type: 'hill',
+    displayName: 'Hilltop',
+    movementCost: 1,
+    visionModifier: 1,
+    cover: 0,
+    elevation: 1,
+    topColors: ['#b5b56c', '#8f8f4a'],
+    sideColor: '#6f6a3a'
+  },
+  water: {
+    type: 'water',
+    displayName: 'River',
+    movementCost: Infinity, // Only crossed at bridges
+    visionModifier: 0,
+    cover: 0,
+    elevation: 0,
+    topColors: ['#5b9bd0', '#2f6aa0'],
+    sideColor: '#24507a'
+  },
+  road: {
+    type: 'road',
+    displayName: 'Road',
+    movementCost: -0.5, // Siege engines roll along at double speed
+    visionModifier: 0,
+    cover: 0,
+    elevation: 0,
+    topColors: ['#d9c08c', '#bba06a'],
+    sideColor: '#8a7450'
+  },
+  mud: {
+    type: 'mud',
+    displayName: 'Mud',
+    movementCost: 1,
+    visionModifier: 0,
+    cover: 0,
+    elevation: 0,
+    topColors: ['#8a6a45', '#6e5233'],
+    sideColor: '#4f3a24'
+  },
+  bridge: {
+    type: 'bridge',
+    displayName: 'Bridge',
+    movementCost: -0.5, // Carries the road over the river
+    visionModifier: 0,
+    cover: 0,
+    elevation: 0,
+    topColors: ['#b08450', '#8a5f35'],
+    sideColor: '#24507a'
+  }
+};
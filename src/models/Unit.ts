@@ -5,18 +5,29 @@
 
 import { HexCoordinate } from './HexCoordinate';
 import { WeaponStats, getWeaponStats } from './WeaponStats';
-import { WeaponType, PlayerType, CONSTANTS } from '../utils/Constants';
+import { WeaponType, PlayerType, FireMode, StatusEffectType, ArmorClass, DamageType, CONSTANTS } from '../utils/Constants';
+import { UnitSnapshot } from './BattleSnapshot';
+import { StatusEffect, STATUS_EFFECT_DURATIONS } from './StatusEffect';
+import { HexUtils } from '../utils/HexUtils';
 
 export class Unit {
   public id: string;
   public type: WeaponType;
   public owner: PlayerType;
   public position: HexCoordinate;
+  public facing: number = 0; // Direction the engine points (index into HexUtils.neighbors)
   public health: number;
   public maxHealth: number;
   public hasMovedThisTurn: boolean = false;
   public hasAttackedThisTurn: boolean = false;
   public movementPointsUsed: number = 0; // Track how many movement points used this turn
+  public statusEffects: StatusEffect[] = [];
+  public ammo: number;
+  public reloadTurnsRemaining: number = 0; // Own turns left before the weapon can fire again
+  public overwatch: boolean = false; // Attack held back to fire at the first enemy that moves into range
+  public fortifyLevel: number = 0; // Consecutive turns spent digging in on this hex (lost on moving)
+  public fortifiedThisTurn: boolean = false; // Dug in during its latest turn (keeps the fortifications)
+  public hasReturnedFireThisTurn: boolean = false; // Already shot back at an attacker since its own turn began
   private weaponStats: WeaponStats;
 
   constructor(id: string, type: WeaponType, owner: PlayerType, position: HexCoordinate) {
@@ -27,9 +38,57 @@ export class Unit {
     this.maxHealth = CONSTANTS.STARTING_HEALTH;
     this.health = this.maxHealth;
     this.weaponStats = getWeaponStats(type);
+    this.ammo = this.weaponStats.ammoCapacity;
+  }
+
+  /**
+   * Rebuild a unit from a saved battle
+   */
+  static fromSnapshot(snapshot: UnitSnapshot): Unit {
+    const unit = new Unit(snapshot.id, snapshot.type, snapshot.owner, HexUtils.create(snapshot.q, snapshot.r));
+    unit.facing = snapshot.facing;
+    unit.health = snapshot.health;
+    unit.maxHealth = snapshot.maxHealth;
+    unit.hasMovedThisTurn = snapshot.hasMovedThisTurn;
+    unit.hasAttackedThisTurn = snapshot.hasAttackedThisTurn;
+    unit.movementPointsUsed = snapshot.movementPointsUsed;
+    unit.statusEffects = snapshot.statusEffects.map(effect => ({ ...effect }));
+    unit.ammo = snapshot.ammo;
+    unit.reloadTurnsRemaining = snapshot.reloadTurnsRemaining;
+    unit.overwatch = snapshot.overwatch;
+    unit.fortifyLevel = snapshot.fortifyLevel;
+    unit.fortifiedThisTurn = snapshot.fortifiedThisTurn;
+    unit.hasReturnedFireThisTurn = snapshot.hasReturnedFireThisTurn;
+    return unit;
+  }
+
+  toSnapshot(): UnitSnapshot {
+    return {
+      id: this.id,
+      type: this.type,
+      owner: this.owner,
+      q: this.position.q,
+      r: this.position.r,
+      facing: this.facing,
+      health: this.health,
+      maxHealth: this.maxHealth,
+      hasMovedThisTurn: this.hasMovedThisTurn,
+      hasAttackedThisTurn: this.hasAttackedThisTurn,
+      movementPointsUsed: this.movementPointsUsed,
+      statusEffects: this.statusEffects.map(effect => ({ ...effect })),
+      ammo: this.ammo,
+      reloadTurnsRemaining: this.reloadTurnsRemaining,
+      overwatch: this.overwatch,
+      fortifyLevel: this.fortifyLevel,
+      fortifiedThisTurn: this.fortifiedThisTurn,
+      hasReturnedFireThisTurn: this.hasReturnedFireThisTurn
+    };
   }
 
   getMovementRange(): number {
+    if (this.hasStatusEffect('slowed')) {
+      return Math.max(1, Math.ceil(this.weaponStats.movementRange * CONSTANTS.SLOW_MOVEMENT_MULTIPLIER));
+    }
     return this.weaponStats.movementRange;
   }
 
@@ -44,6 +103,13 @@ export class Unit {
     return this.getRemainingMovement() > 0;
   }
 
+  /**
+   * Movement points needed to turn to a new facing
+   */
+  getRotationCost(facing: number): number {
+    return HexUtils.rotationSteps(this.facing, facing) * CONSTANTS.ROTATION_COST;
+  }
+
   getAttackRange(): { min: number; max: number } {
     return {
       min: this.weaponStats.attackRangeMin,
@@ -55,6 +121,26 @@ export class Unit {
     return this.weaponStats.damage;
   }
 
+  getFireMode(): FireMode {
+    return this.weaponStats.fireMode;
+  }
+
+  getFiringArc(): number {
+    return this.weaponStats.firingArc;
+  }
+
+  getDamageType(): DamageType {
+    return this.weaponStats.damageType;
+  }
+
+  getArmorClass(): ArmorClass {
+    return this.weaponStats.armorClass;
+  }
+
+  getBlastRadius(): number {
+    return this.weaponStats.blastRadius ?? 0;
+  }
+
   getWeaponStats(): WeaponStats {
     return this.weaponStats;
   }
@@ -67,13 +153,127 @@ export class Unit {
     return this.health > 0;
   }
 
+  /**
+   * Start a new turn - fortifications only last while the unit keeps
+   * digging in every turn
+   */
   resetTurnActions(): void {
+    if (!this.fortifiedThisTurn) {
+      this.fortifyLevel = 0;
+    }
+    this.fortifiedThisTurn = false;
     this.hasMovedThisTurn = false;
     this.hasAttackedThisTurn = false;
     this.movementPointsUsed = 0;
+    this.overwatch = false;
+    this.hasReturnedFireThisTurn = false;
   }
 
   canAttack(): boolean {
-    return !this.hasAttackedThisTurn;
+    return !this.hasAttackedThisTurn && this.ammo > 0 && !this.isReloading();
+  }
+
+  isReloading(): boolean {
+    return this.reloadTurnsRemaining > 0;
+  }
+
+  getAmmoCapacity(): number {
+    return this.weaponStats.ammoCapacity;
+  }
+
+  /**
+   * Use up a shot - the weapon then rewinds for its reload time
+   * (counted from the end of this turn)
+   */
+  spendShot(): void {
+    this.hasAttackedThisTurn = true;
+    this.ammo = Math.max(0, this.ammo - 1);
+    this.reloadTurnsRemaining = this.weaponStats.reloadTurns + 1;
+  }
+
+  /**
+   * Count down the reload at the end of the unit's turn
+   */
+  tickReload(): void {
+    this.reloadTurnsRemaining = Math.max(0, this.reloadTurnsRemaining - 1);
+  }
+
+  /**
+   * Refill ammunition (takes the unit's whole turn)
+   */
+  resupply(): void {
+    this.ammo = this.weaponStats.ammoCapacity;
+    this.loseTurn();
+  }
+
+  hasStatusEffect(type: StatusEffectType): boolean {
+    return this.statusEffects.some(effect => effect.type === type);
+  }
+
+  /**
+   * Apply a status effect (re-applying refreshes its duration)
+   * Effects count down at the end of the unit's own turn, so one caught during
+   * that turn (overwatch or return fire) gets an extra turn to still bite
+   * 
+   * @param type Effect to apply
+   * @param duringOwnTurn True when it lands while the unit's side is taking its turn
+   */
+  addStatusEffect(type: StatusEffectType, duringOwnTurn: boolean = false): void {
+    const duration = STATUS_EFFECT_DURATIONS[type] + (duringOwnTurn ? 1 : 0);
+    const existing = this.statusEffects.find(effect => effect.type === type);
+    if (existing) {
+      existing.turnsRemaining = Math.max(existing.turnsRemaining, duration);
+    } else {
+      this.statusEffects.push({ type, turnsRemaining: duration });
+    }
+  }
+
+  /**
+   * Count down effects at the end of the unit's turn, dropping expired ones
+   */
+  tickStatusEffects(): void {
+    this.statusEffects.forEach(effect => effect.turnsRemaining--);
+    this.statusEffects = this.statusEffects.filter(effect => effect.turnsRemaining > 0);
+  }
+
+  /**
+   * Share of incoming damage absorbed by digging in
+   */
+  getFortification(): number {
+    return this.fortifyLevel * CONSTANTS.FORTIFY_DAMAGE_REDUCTION;
+  }
+
+  /**
+   * A unit can dig in only at the very start of its turn
+   * (at the cap, digging in again keeps the fortifications in place)
+   */
+  canFortify(): boolean {
+    return !this.hasMovedThisTurn && !this.hasAttackedThisTurn && this.movementPointsUsed === 0;
+  }
+
+  /**
+   * Dig in one level deeper, up to the cap (ends the unit's turn)
+   */
+  fortify(): void {
+    this.fortifyLevel = Math.min(CONSTANTS.MAX_FORTIFY_LEVEL, this.fortifyLevel + 1);
+    this.fortifiedThisTurn = true;
+    this.loseTurn();
+  }
+
+  /**
+   * Hold the attack back for the enemy's turn (ends the unit's turn)
+   */
+  enterOverwatch(): void {
+    this.loseTurn();
+    this.overwatch = true;
+  }
+
+  /**
+   * Spend the whole turn (stunned units can neither move nor attack)
+   */
+  loseTurn(): void {
+    this.hasMovedThisTurn = true;
+    this.hasAttackedThisTurn = true;
+    this.movementPointsUsed = this.getMovementRange();
   }
 }
@@ -3,7 +3,8 @@
  * Defines characteristics and configuration for each weapon type
  */
 
-import { CONSTANTS, WeaponType } from '../utils/Constants';
+import { ArmorClass, CONSTANTS, DamageType, FireMode, WeaponType } from '../utils/Constants';
+import { OnHitEffect } from './StatusEffect';
 
 export interface WeaponStats {
   type: WeaponType;
@@ -12,6 +13,20 @@ export interface WeaponStats {
   attackRangeMin: number;
   attackRangeMax: number;
   damage: number;
+  hitChanceNear: number; // Hit chance at minimum range (0-1)
+  hitChanceFar: number; // Hit chance at maximum range (0-1)
+  damageVariance: number; // Damage rolls within ±this fraction of base damage
+  critChance: number; // Chance a hit is critical (0-1)
+  blastRadius?: number; // Splash radius in hexes around the impact (none = single target)
+  blastFalloff?: number; // Damage fraction lost per hex away from the impact
+  onHitEffect?: OnHitEffect; // Status effect a hit may inflict
+  fireMode: FireMode;
+  firingArc: number; // Degrees the weapon can traverse, centred on the unit's facing
+  ammoCapacity: number; // Shots carried before needing to resupply
+  reloadTurns: number; // Turns spent rewinding after each shot (0 = fires every turn)
+  damageType: DamageType;
+  armorClass: ArmorClass; // How well the engine's own frame holds up
+  cost: number; // Army points needed to field one unit
   unlockXP: number;
   spriteUrl: string;
   description: string;
@@ -26,6 +41,20 @@ export const WEAPON_CONFIGS: Record<WeaponType, WeaponStats> = {
     attackRangeMin: 2,
     attackRangeMax: 5,
     damage: 35,
+    hitChanceNear: 0.9,
+    hitChanceFar: 0.65,
+    damageVariance: 0.2,
+    critChance: 0.1,
+    blastRadius: 1,
+    blastFalloff: 0.5,
+    onHitEffect: { type: 'burning', chance: 0.3 },
+    fireMode: 'indirect',
+    firingArc: 180, // Swings its arm over a wide arc
+    ammoCapacity: 4,
+    reloadTurns: 0,
+    damageType: 'impact',
+    armorClass: 'medium',
+    cost: 3,
     unlockXP: 0,
     spriteUrl: '/assets/sprites/catapult.png',
     description: 'Balanced siege weapon with medium range and damage'
@@ -37,6 +66,18 @@ export const WEAPON_CONFIGS: Record<WeaponType, WeaponStats> = {
     attackRangeMin: 3,
     attackRangeMax: 6,
     damage: 30,
+    hitChanceNear: 0.95,
+    hitChanceFar: 0.8,
+    damageVariance: 0.1,
+    critChance: 0.15,
+    onHitEffect: { type: 'slowed', chance: 0.3 },
+    fireMode: 'direct',
+    firingArc: 60, // Aims only straight down its stock
+    ammoCapacity: 6,
+    reloadTurns: 0,
+    damageType: 'pierce',
+    armorClass: 'light',
+    cost: 4,
     unlockXP: CONSTANTS.BALLISTA_UNLOCK_XP,
     spriteUrl: '/assets/sprites/ballista.png',
     description: 'Long-range precision weapon with high mobility'
@@ -48,12 +89,71 @@ export const WEAPON_CONFIGS: Record<WeaponType, WeaponStats> = {
     attackRangeMin: 4,
     attackRangeMax: 8,
     damage: 60,
+    hitChanceNear: 0.8,
+    hitChanceFar: 0.5,
+    damageVariance: 0.25,
+    critChance: 0.1,
+    blastRadius: 1,
+    blastFalloff: 0.35,
+    onHitEffect: { type: 'stunned', chance: 0.2 },
+    fireMode: 'indirect',
+    firingArc: 120,
+    ammoCapacity: 3,
+    reloadTurns: 1,
+    damageType: 'crush',
+    armorClass: 'heavy',
+    cost: 6,
     unlockXP: CONSTANTS.TREBUCHET_UNLOCK_XP,
     spriteUrl: '/assets/sprites/trebuchet.png',
     description: 'Devastating long-range siege engine with limited mobility'
   }
 };
 
+/**
+ * Damage multiplier for each damage type against each armor class
+ * Bolts pierce light frames but glance off stone, heavy stones crush
+ * fortifications, catapult shot is an all-rounder that favours light targets
+ */
+export const ARMOR_DAMAGE_MULTIPLIERS: Record<DamageType, Record<ArmorClass, number>> = {
+  pierce: { light: 1.5, medium: 1.0, heavy: 0.75, fortified: 0.5 },
+  impact: { light: 1.25, medium: 1.0, heavy: 0.8, fortified: 1.0 },
+  crush: { light: 0.8, medium: 1.0, heavy: 1.25, fortified: 1.5 }
+};
+
+export const ARMOR_CLASS_LABELS: Record<ArmorClass, string> = {
+  light: 'Light',
+  medium: 'Medium',
+  heavy: 'Heavy',
+  fortified: 'Buildings'
+};
+
+export const DAMAGE_TYPE_LABELS: Record<DamageType, string> = {
+  pierce: 'Pierce',
+  impact: 'Impact',
+  crush: 'Crush'
+};
+
+export function getArmorMultiplier(damageType: DamageType, armorClass: ArmorClass): number {
+  return ARMOR_DAMAGE_MULTIPLIERS[damageType][armorClass];
+}
+
 export function getWeaponStats(type: WeaponType): WeaponStats {
   return WEAPON_CONFIGS[type];
 }
+
+/**
+ * Total point cost of an army loadout
+ */
+export function getArmyCost(army: WeaponType[]): number {
+  return army.reduce((total, type) => total + WEAPON_CONFIGS[type].cost, 0);
+}
+
+/**
+ * Check an army fits the point budget and size limit
+ */
+export function isValidArmy(army: WeaponType[]): boolean {
+  return army.length > 0 &&
+    army.length <= CONSTANTS.MAX_ARMY_SIZE &&
+    army.every(type => WEAPON_CONFIGS[type] !== undefined) &&
+    getArmyCost(army) <= CONSTANTS.ARMY_POINT_BUDGET;
+}
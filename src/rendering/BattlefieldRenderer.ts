@@ -1,7 +1,9 @@
 import { GameState } from '../core/GameState';
 import { HexCoordinate } from '../models/HexCoordinate';
 import { HexTile } from '../models/HexTile';
+import { TerrainStats, TERRAIN_CONFIGS } from '../models/Terrain';
 import { HexUtils } from '../utils/HexUtils';
+import { CONSTANTS } from '../utils/Constants';
 
 /**
  * Renders the hex-grid battlefield with 2.5D isometric perspective
@@ -62,26 +64,31 @@ export class BattlefieldRenderer {
    * Renders both top face and visible side faces
    */
   private drawIsometricHex(coord: HexCoordinate, gameState: GameState): void {
-    const pixel = this.hexToIsometricPixel(coord);
+    const groundPixel = this.hexToIsometricPixel(coord);
     const distance = HexUtils.distance(coord, {q: 0, r: 0, s: 0});
     const isShrinkZone = distance > gameState.shrinkRadius;
     const isNextShrinkZone = distance > gameState.shrinkRadius - 1 && !isShrinkZone;
     
-    // Get tile for fog of war opacity
+    // Get tile for fog of war opacity and ground colors
     const tile = gameState.getTileAt(coord);
     const opacity = tile ? tile.getOpacity() : 1.0;
+    const terrain = tile ? tile.getTerrainStats() : TERRAIN_CONFIGS.grass;
+    
+    // Higher ground is lifted up, exposing taller sides
+    const lift = (tile ? tile.elevation : 0) * CONSTANTS.ELEVATION_STEP_HEIGHT;
+    const pixel = { x: groundPixel.x, y: groundPixel.y - lift };
     
     // Draw hex with 3D depth - sides first, then top
-    this.drawHexSides(pixel, isShrinkZone, isNextShrinkZone, opacity);
-    this.drawHexTop(pixel, isShrinkZone, isNextShrinkZone, opacity);
+    this.drawHexSides(pixel, terrain, isShrinkZone, isNextShrinkZone, opacity, lift);
+    this.drawHexTop(pixel, terrain, isShrinkZone, isNextShrinkZone, opacity);
   }
 
   /**
    * Draw the top face of the hex with lighting gradient
-   * Applies color based on shrink zone status
+   * Applies color based on terrain and shrink zone status
    * Civ 6 style - seamless connected hexes with subtle borders
    */
-  private drawHexTop(pixel: {x: number, y: number}, isShrinkZone: boolean, isNextShrinkZone: boolean, opacity: number = 1.0): void {
+  private drawHexTop(pixel: {x: number, y: number}, terrain: TerrainStats, isShrinkZone: boolean, isNextShrinkZone: boolean, opacity: number = 1.0): void {
     const vertices = this.calculateIsometricHexVertices(pixel.x, pixel.y);
     
     // Apply fog of war opacity
@@ -110,9 +117,9 @@ export class BattlefieldRenderer {
       gradient.addColorStop(0, '#d4a034');
       gradient.addColorStop(1, '#b88520');
     } else {
-      // Grass green for playable area - slightly more vibrant like Civ 6
-      gradient.addColorStop(0, '#9bc45f');
-      gradient.addColorStop(1, '#7a9b3f');
+      // Terrain colors for playable area - slightly more vibrant like Civ 6
+      gradient.addColorStop(0, terrain.topColors[0]);
+      gradient.addColorStop(1, terrain.topColors[1]);
     }
     
     this.ctx.fillStyle = gradient;
@@ -131,9 +138,11 @@ export class BattlefieldRenderer {
    * Draw the visible side faces of the hex for 3D depth effect
    * Only draws the 3 sides facing the camera (bottom faces)
    * Civ 6 style - subtle 3D with integrated appearance
+   * Raised hexes extend their sides down to ground level
    */
-  private drawHexSides(pixel: {x: number, y: number}, isShrinkZone: boolean, isNextShrinkZone: boolean, opacity: number = 1.0): void {
+  private drawHexSides(pixel: {x: number, y: number}, terrain: TerrainStats, isShrinkZone: boolean, isNextShrinkZone: boolean, opacity: number = 1.0, lift: number = 0): void {
     const vertices = this.calculateIsometricHexVertices(pixel.x, pixel.y);
+    const sideHeight = this.HEX_HEIGHT + lift;
     let sideColor: string;
     
     if (isShrinkZone) {
@@ -141,7 +150,7 @@ export class BattlefieldRenderer {
     } else if (isNextShrinkZone) {
       sideColor = '#9a7020'; // Orange for warning zone
     } else {
-      sideColor = '#5a7a3a'; // Green for safe zone
+      sideColor = terrain.sideColor; // Terrain color for safe zone
     }
     
     // Apply fog of war opacity
@@ -156,8 +165,8 @@ export class BattlefieldRenderer {
       this.ctx.beginPath();
       this.ctx.moveTo(v1.x, v1.y);
       this.ctx.lineTo(v2.x, v2.y);
-      this.ctx.lineTo(v2.x, v2.y + this.HEX_HEIGHT);
-      this.ctx.lineTo(v1.x, v1.y + this.HEX_HEIGHT);
+      this.ctx.lineTo(v2.x, v2.y + sideHeight);
+      this.ctx.lineTo(v1.x, v1.y + sideHeight);
       this.ctx.closePath();
       
       this.ctx.fillStyle = sideColor;
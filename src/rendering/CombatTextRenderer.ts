@@ -0,0 +1,88 @@
+import { HexCoordinate } from '../models/HexCoordinate';
+
+interface CombatText {
+  position: HexCoordinate;
+  text: string;
+  color: string;
+  startTime: number;
+  stackOffset: number; // Pixels above other texts that popped on the same hex
+}
+
+/**
+ * CombatTextRenderer - Floating damage numbers
+ * Shows MISS / damage / critical hits rising above the target hex
+ */
+export class CombatTextRenderer {
+  private ctx: CanvasRenderingContext2D;
+  private hexSize: number;
+  private canvas: HTMLCanvasElement;
+  private texts: CombatText[] = [];
+
+  // How long each text stays on screen
+  private static readonly DURATION_MS = 1200;
+  
+  // Texts on the same hex within this window stack instead of overlapping
+  private static readonly STACK_WINDOW_MS = 400;
+  private static readonly STACK_SPACING = 22;
+
+  constructor(ctx: CanvasRenderingContext2D, hexSize: number, canvas: HTMLCanvasElement) {
+    this.ctx = ctx;
+    this.hexSize = hexSize;
+    this.canvas = canvas;
+  }
+
+  /**
+   * Queue a floating text above a hex
+   */
+  public add(position: HexCoordinate, text: string, color: string): void {
+    const now = Date.now();
+    const stacked = this.texts.filter(entry =>
+      entry.position.q === position.q && entry.position.r === position.r &&
+      now - entry.startTime < CombatTextRenderer.STACK_WINDOW_MS
+    ).length;
+    this.texts.push({ position, text, color, startTime: now, stackOffset: stacked * CombatTextRenderer.STACK_SPACING });
+  }
+
+  /**
+   * Main render method - draws and expires floating texts
+   */
+  public render(): void {
+    const now = Date.now();
+    this.texts = this.texts.filter(entry => now - entry.startTime < CombatTextRenderer.DURATION_MS);
+
+    this.texts.forEach(entry => {
+      const progress = (now - entry.startTime) / CombatTextRenderer.DURATION_MS;
+      const pixel = this.hexToIsometricPixel(entry.position);
+      const y = pixel.y - this.hexSize - entry.stackOffset - progress * 30; // Rise while fading
+
+      this.ctx.save();
+      this.ctx.globalAlpha = 1 - progress;
+      this.ctx.font = 'bold 20px Courier New';
+      this.ctx.textAlign = 'center';
+      this.ctx.textBaseline = 'middle';
+      this.ctx.lineWidth = 4;
+      this.ctx.strokeStyle = 'rgba(0, 0, 0, 0.8)';
+      this.ctx.strokeText(entry.text, pixel.x, y);
+      this.ctx.fillStyle = entry.color;
+      this.ctx.fillText(entry.text, pixel.x, y);
+      this.ctx.restore();
+    });
+  }
+
+  /**
+   * Convert hex coordinate to isometric pixel position (matching BattlefieldRenderer)
+   */
+  private hexToIsometricPixel(coord: HexCoordinate): { x: number; y: number } {
+    const hexWidth = Math.sqrt(3) * this.hexSize;
+    const hexHeight = 1.5 * this.hexSize;
+    const verticalScale = 0.5;
+
+    const x = hexWidth * (coord.q + coord.r / 2);
+    const y = hexHeight * coord.r * verticalScale;
+
+    return {
+      x: x + this.canvas.width / 2,
+      y: y + this.canvas.height / 2
+    };
+  }
+}
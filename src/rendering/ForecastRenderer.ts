@@ -0,0 +1,132 @@
+import { HexCoordinate } from '../models/HexCoordinate';
+import { GameState } from '../core/GameState';
+import { CombatService, AttackForecast } from '../services/CombatService';
+import { Unit } from '../models/Unit';
+import { CONSTANTS } from '../utils/Constants';
+import { STATUS_EFFECT_LABELS } from '../models/StatusEffect';
+import { ARMOR_CLASS_LABELS } from '../models/WeaponStats';
+
+/**
+ * ForecastRenderer - Attack preview tooltip
+ * Shows the forecast when hovering an enemy the selected unit can attack
+ */
+export class ForecastRenderer {
+  private ctx: CanvasRenderingContext2D;
+  private hexSize: number;
+  private canvas: HTMLCanvasElement;
+
+  constructor(ctx: CanvasRenderingContext2D, hexSize: number, canvas: HTMLCanvasElement) {
+    this.ctx = ctx;
+    this.hexSize = hexSize;
+    this.canvas = canvas;
+  }
+
+  /**
+   * Main render method for the forecast tooltip
+   */
+  public render(gameState: GameState): void {
+    const attacker = gameState.selectedUnit;
+    const hovered = gameState.hoveredHex;
+    if (!attacker || !hovered || gameState.phase !== 'battle' || gameState.currentTurn !== 'player') {
+      return;
+    }
+
+    // Cheap checks first - canAttack logs every rejection and this runs each frame
+    const inRange = gameState.validAttackHexes.some(hex => hex.q === hovered.q && hex.r === hovered.r);
+    const target = inRange ? CombatService.getEnemyAtHex(hovered, attacker, gameState) : null;
+    if (!target || !gameState.visionService.isUnitVisibleToPlayer(target) || !CombatService.canAttack(attacker, target, gameState)) {
+      return;
+    }
+
+    this.drawTooltip(this.hexToIsometricPixel(hovered), target, CombatService.forecast(attacker, target, gameState));
+  }
+
+  /**
+   * Draw the forecast box above the target hex
+   */
+  private drawTooltip(pos: { x: number; y: number }, target: Unit, forecast: AttackForecast): void {
+    const damageText = forecast.minDamage === forecast.maxDamage
+      ? `${forecast.expectedDamage}`
+      : `${forecast.minDamage}-${forecast.maxDamage} (avg ${Math.round(forecast.expectedDamage)})`;
+
+    const lines = [
+      `Damage: ${damageText}`,
+      `Hit: ${Math.round(forecast.hitChance * 100)}%`,
+      forecast.canKill
+        ? `Kill: ${Math.round(forecast.killChance * 100)}%`
+        : `Target HP: ${target.health} → ${Math.max(0, target.health - forecast.maxDamage)}`,
+      forecast.counterDamage > 0 ? `Counter risk: ${forecast.counterDamage}` : 'Counter risk: none'
+    ];
+    if (forecast.returnFireDamage > 0) {
+      lines.push(`Return fire: ${forecast.returnFireDamage}`);
+    }
+    if (forecast.effect) {
+      lines.push(`${STATUS_EFFECT_LABELS[forecast.effect]}: ${Math.round(forecast.effectChance * 100)}%`);
+    }
+    if (forecast.armorModifier !== 1) {
+      lines.push(`vs ${ARMOR_CLASS_LABELS[target.getArmorClass()]} armor: x${forecast.armorModifier}`);
+    }
+    if (forecast.cover > 0) {
+      lines.push(`Cover: -${Math.round(forecast.cover * 100)}%`);
+    }
+    if (forecast.fortification > 0) {
+      lines.push(`Dug in: -${Math.round(forecast.fortification * 100)}%`);
+    }
+    if (forecast.heightAdvantage > 0) {
+      lines.push(`High ground: +${Math.round(forecast.heightAdvantage * CONSTANTS.ELEVATION_DAMAGE_BONUS * 100)}%`);
+    }
+    if (forecast.rearAttack) {
+      lines.push(`Rear attack: +${Math.round(CONSTANTS.REAR_ATTACK_DAMAGE_BONUS * 100)}%`);
+    }
+    if (forecast.splashDamage > 0) {
+      lines.push(`Splash: ${forecast.splashDamage}`);
+    }
+    if (forecast.friendlyDamage > 0) {
+      lines.push(`Friendly fire: ${forecast.friendlyDamage}`);
+    }
+
+    this.ctx.save();
+    this.ctx.font = 'bold 13px Courier New';
+    this.ctx.textAlign = 'left';
+    this.ctx.textBaseline = 'top';
+
+    const padding = 8;
+    const lineHeight = 16;
+    const boxWidth = Math.max(...lines.map(line => this.ctx.measureText(line).width)) + padding * 2;
+    const boxHeight = lines.length * lineHeight + padding * 2;
+
+    // Keep the box on screen
+    const x = Math.min(Math.max(pos.x - boxWidth / 2, 4), this.canvas.width - boxWidth - 4);
+    const y = Math.max(pos.y - this.hexSize * 1.5 - boxHeight, 4);
+
+    this.ctx.fillStyle = 'rgba(0, 0, 0, 0.8)';
+    this.ctx.strokeStyle = forecast.canKill ? '#f4d03f' : '#C24641';
+    this.ctx.lineWidth = 2;
+    this.ctx.fillRect(x, y, boxWidth, boxHeight);
+    this.ctx.strokeRect(x, y, boxWidth, boxHeight);
+
+    lines.forEach((line, index) => {
+      const isWarning = (index === 3 && forecast.counterDamage > 0) || line.startsWith('Return fire');
+      this.ctx.fillStyle = isWarning ? '#E05D57' : '#E8DCC8';
+      this.ctx.fillText(line, x + padding, y + padding + index * lineHeight);
+    });
+    this.ctx.restore();
+  }
+
+  /**
+   * Convert hex coordinate to isometric pixel position (matching BattlefieldRenderer)
+   */
+  private hexToIsometricPixel(coord: HexCoordinate): { x: number; y: number } {
+    const hexWidth = Math.sqrt(3) * this.hexSize;
+    const hexHeight = 1.5 * this.hexSize;
+    const verticalScale = 0.5;
+
+    const x = hexWidth * (coord.q + coord.r / 2);
+    const y = hexHeight * coord.r * verticalScale;
+
+    return {
+      x: x + this.canvas.width / 2,
+      y: y + this.canvas.height / 2
+    };
+  }
+}
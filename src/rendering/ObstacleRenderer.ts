@@ -3,6 +3,7 @@ import { HexCoordinate } from '../models/HexCoordinate';
 import { Obstacle } from '../models/Obstacle';
 import { HexTile } from '../models/HexTile';
 import { Logger } from '../utils/Logger';
+import { CONSTANTS } from '../utils/Constants';
 import rockGreyLarge from '../assets/PNG/Objects/rockGrey_large.png';
 import rockBrownLarge from '../assets/PNG/Objects/rockBrown_large.png';
 import rockGreySmall1 from '../assets/PNG/Objects/rockGrey_small1.png';
@@ -14,6 +15,15 @@ import ruinsCorner from '../assets/PNG/Objects/ruinsCorner.png';
 import ruinsBrick1 from '../assets/PNG/Objects/ruins_brick1.png';
 import castleLarge from '../assets/PNG/Objects/castle_large.png';
 import church from '../assets/PNG/Objects/church.png';
+import ruinsBrick2 from '../assets/PNG/Objects/ruins_brick2.png';
+import rockGreyMedium3 from '../assets/PNG/Objects/rockGrey_medium3.png';
+import cargo from '../assets/PNG/Objects/cargo.png';
+import flame1 from '../assets/flame-1.png';
+import flame2 from '../assets/flame-2.png';
+import flame3 from '../assets/flame-3.png';
+import flame4 from '../assets/flame-4.png';
+
+const FLAME_FRAMES = [flame1, flame2, flame3, flame4];
 
 
 /**
@@ -43,7 +53,11 @@ export class ObstacleRenderer {
       ruinsCorner,
       ruinsBrick1,
       castleLarge,
-      church
+      church,
+      ruinsBrick2,
+      rockGreyMedium3,
+      cargo,
+      ...FLAME_FRAMES
     ];
 
     const loadPromises = assetPaths.map(path => this.loadImage(path));
@@ -87,7 +101,8 @@ export class ObstacleRenderer {
   }
 
   private drawObstacle(coord: HexCoordinate, obstacle: Obstacle, tile: HexTile): void {
-    const pixel = this.hexToIsometricPixel(coord);
+    const groundPixel = this.hexToIsometricPixel(coord);
+    const pixel = { x: groundPixel.x, y: groundPixel.y - tile.elevation * CONSTANTS.ELEVATION_STEP_HEIGHT };
     const image = this.imageCache.get(obstacle.assetPath);
 
     if (!image) {
@@ -105,10 +120,15 @@ export class ObstacleRenderer {
     this.ctx.globalAlpha = opacity;
 
     // Draw drop shadow
-    if (opacity > 0.3 && obstacle.type !== 'RUIN' && obstacle.type !== 'CASTLE') {
+    if (opacity > 0.3 && obstacle.type !== 'RUIN' && obstacle.type !== 'CASTLE' && obstacle.type !== 'RUBBLE') {
       this.drawShadow(pixel, scaledWidth, scaledHeight);
     }
 
+    // Battered buildings and burnt trees are drawn scorched
+    if (obstacle.isDamaged() || obstacle.burntOut) {
+      this.ctx.filter = 'grayscale(0.6) brightness(0.7)';
+    }
+
     // Draw obstacle centered on hex
     this.ctx.drawImage(
       image,
@@ -117,11 +137,47 @@ export class ObstacleRenderer {
       scaledWidth,
       scaledHeight
     );
+    this.ctx.filter = 'none';
+
+    if (obstacle.isBurning()) {
+      this.drawFlames(pixel, scaledHeight);
+    }
+
+    // Show remaining structure once a siege target has been hit
+    if (obstacle.isDestructible() && obstacle.health < obstacle.maxHealth && opacity > 0.3) {
+      this.drawStructureBar(pixel, scaledHeight, obstacle);
+    }
 
     // Reset alpha
     this.ctx.globalAlpha = 1.0;
   }
 
+  /**
+   * Animated flames over a burning obstacle
+   */
+  private drawFlames(pixel: { x: number; y: number }, height: number): void {
+    const frame = this.imageCache.get(FLAME_FRAMES[Math.floor(Date.now() / CONSTANTS.FLAME_FRAME_DURATION) % FLAME_FRAMES.length]);
+    if (!frame) return;
+
+    const size = Math.max(32, height * 0.6);
+    this.ctx.drawImage(frame, pixel.x - size / 2, pixel.y - size * 0.8, size, size);
+  }
+
+  /**
+   * Thin bar above a damaged obstacle showing its remaining hit points
+   */
+  private drawStructureBar(pixel: { x: number; y: number }, height: number, obstacle: Obstacle): void {
+    const barWidth = 36;
+    const barHeight = 4;
+    const x = pixel.x - barWidth / 2;
+    const y = pixel.y - height / 2 - 8;
+
+    this.ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+    this.ctx.fillRect(x, y, barWidth, barHeight);
+    this.ctx.fillStyle = obstacle.isDamaged() ? '#c0392b' : '#bfa76f';
+    this.ctx.fillRect(x, y, barWidth * (obstacle.health / obstacle.maxHealth), barHeight);
+  }
+
   private drawShadow(pixel: { x: number; y: number }, width: number, height: number): void {
     this.ctx.fillStyle = 'rgba(0, 0, 0, 0.3)';
     this.ctx.beginPath();
@@ -1,6 +1,10 @@
 import { HexCoordinate } from '../models/HexCoordinate';
 import { GameState } from '../core/GameState';
+import { Unit } from '../models/Unit';
 import { PathfindingService } from '../services/PathfindingService';
+import { CombatService } from '../services/CombatService';
+import { CONSTANTS } from '../utils/Constants';
+import { HexUtils } from '../utils/HexUtils';
 
 /**
  * PathRenderer - Visualizes movement paths and reachable areas
@@ -21,14 +25,27 @@ export class PathRenderer {
    * Main render method for path visualization
    */
   public render(gameState: GameState): void {
+    if (gameState.phase === 'deployment') {
+      this.renderDeploymentZone(gameState);
+      return;
+    }
+
+    // Zones covered by units holding an overwatch shot
+    this.renderOverwatchZones(gameState);
+
+    // Enemy zones of control the selected unit would be stopped by
+    if (gameState.selectedUnit && gameState.rules.zoneOfControl) {
+      this.renderZonesOfControl(gameState.selectedUnit, gameState);
+    }
+
     // Render reachable movement hexes (blue overlay)
     if (gameState.validMoveHexes.length > 0) {
-      this.renderReachableHexes(gameState.validMoveHexes, 'rgba(100, 150, 255, 0.3)');
+      this.renderReachableHexes(gameState.validMoveHexes, 'rgba(100, 150, 255, 0.3)', gameState);
     }
 
     // Render attack range hexes (red overlay)
     if (gameState.validAttackHexes.length > 0) {
-      this.renderReachableHexes(gameState.validAttackHexes, 'rgba(255, 100, 100, 0.3)');
+      this.renderReachableHexes(gameState.validAttackHexes, 'rgba(255, 100, 100, 0.3)', gameState);
     }
 
     // Render planned path if unit is selected and hovering over valid destination
@@ -38,17 +55,131 @@ export class PathRenderer {
       );
       
       if (isValidMove) {
-        this.renderPath(gameState.selectedUnit.position, gameState.hoveredHex, gameState);
+        this.renderPath(gameState.selectedUnit, gameState.hoveredHex, gameState);
+      } else {
+        this.renderBlastFootprint(gameState);
+      }
+    }
+  }
+
+  /**
+   * Preview the hexes a blast weapon would hit when aimed at the hovered hex (orange overlay)
+   */
+  private renderBlastFootprint(gameState: GameState): void {
+    const unit = gameState.selectedUnit!;
+    const hovered = gameState.hoveredHex!;
+    if (unit.getBlastRadius() === 0) return;
+
+    const isInRange = gameState.validAttackHexes.some(hex => hex.q === hovered.q && hex.r === hovered.r);
+    if (!isInRange) return;
+
+    this.renderReachableHexes(CombatService.getBlastArea(unit, hovered, gameState), 'rgba(255, 150, 50, 0.4)', gameState);
+  }
+
+  /**
+   * Shade the hexes each overwatch unit will fire into and ring the zone's edge
+   * (amber for the player, purple for enemies the player can see)
+   */
+  private renderOverwatchZones(gameState: GameState): void {
+    const watchers = [
+      ...gameState.playerUnits,
+      ...gameState.aiUnits.filter(unit => gameState.visionService.isUnitVisibleToPlayer(unit))
+    ].filter(unit => unit.overwatch);
+
+    watchers.forEach(watcher => {
+      const zone = CombatService.getAttackRange(watcher, gameState);
+      const zoneKeys = new Set(zone.map(hex => HexUtils.toKey(hex)));
+      const [r, g, b] = watcher.owner === 'player' ? [255, 200, 80] : [190, 90, 230];
+
+      this.ctx.fillStyle = `rgba(${r}, ${g}, ${b}, 0.12)`;
+      this.ctx.strokeStyle = `rgba(${r}, ${g}, ${b}, 0.8)`;
+      this.ctx.lineWidth = 2;
+
+      zone.forEach(hex => {
+        const lift = (gameState.getTileAt(hex)?.elevation ?? 0) * CONSTANTS.ELEVATION_STEP_HEIGHT;
+        const vertices = this.calculateIsometricHexVertices(hex, lift);
+
+        this.ctx.beginPath();
+        vertices.forEach((vertex, index) => index === 0 ? this.ctx.moveTo(vertex.x, vertex.y) : this.ctx.lineTo(vertex.x, vertex.y));
+        this.ctx.closePath();
+        this.ctx.fill();
+
+        // Outline only the edges facing hexes outside the zone
+        const groundVertices = this.calculateIsometricHexVertices(hex);
+        HexUtils.neighbors(hex)
+          .filter(neighbor => !zoneKeys.has(HexUtils.toKey(neighbor)))
+          .forEach(neighbor => {
+            const edge = this.getEdgeFacing(groundVertices, this.hexToIsometricPixel(neighbor));
+            this.ctx.beginPath();
+            this.ctx.moveTo(vertices[edge].x, vertices[edge].y);
+            this.ctx.lineTo(vertices[(edge + 1) % 6].x, vertices[(edge + 1) % 6].y);
+            this.ctx.stroke();
+          });
+      });
+    });
+  }
+
+  /**
+   * Faintly shade the hexes next to enemies the player can see - moving
+   * into one ends the selected unit's move
+   */
+  private renderZonesOfControl(unit: Unit, gameState: GameState): void {
+    const enemies = (unit.owner === 'player' ? gameState.aiUnits : gameState.playerUnits)
+      .filter(enemy => unit.owner !== 'player' || gameState.visionService.isUnitVisibleToPlayer(enemy));
+
+    this.ctx.fillStyle = 'rgba(120, 40, 40, 0.15)';
+    PathfindingService.getZoneOfControl(enemies, gameState).forEach(hex => {
+      const lift = (gameState.getTileAt(hex)?.elevation ?? 0) * CONSTANTS.ELEVATION_STEP_HEIGHT;
+      const vertices = this.calculateIsometricHexVertices(hex, lift);
+
+      this.ctx.beginPath();
+      vertices.forEach((vertex, index) => index === 0 ? this.ctx.moveTo(vertex.x, vertex.y) : this.ctx.lineTo(vertex.x, vertex.y));
+      this.ctx.closePath();
+      this.ctx.fill();
+    });
+  }
+
+  /**
+   * Index of the hex edge (vertex i to i + 1) whose midpoint is closest to a point
+   */
+  private getEdgeFacing(vertices: Array<{ x: number; y: number }>, point: { x: number; y: number }): number {
+    let best = 0;
+    let bestDistance = Infinity;
+    for (let i = 0; i < 6; i++) {
+      const midX = (vertices[i].x + vertices[(i + 1) % 6].x) / 2;
+      const midY = (vertices[i].y + vertices[(i + 1) % 6].y) / 2;
+      const distance = (midX - point.x) ** 2 + (midY - point.y) ** 2;
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        best = i;
       }
     }
+    return best;
+  }
+
+  /**
+   * Highlight the hexes the player may deploy onto (green overlay)
+   * The hovered hex is emphasised while a unit is picked up
+   */
+  private renderDeploymentZone(gameState: GameState): void {
+    const legalHexes = gameState.getDeploymentZone('player')
+      .filter(hex => gameState.isValidDeploymentHex('player', hex));
+
+    this.renderReachableHexes(legalHexes, 'rgba(120, 200, 120, 0.3)', gameState);
+
+    const hovered = gameState.hoveredHex;
+    if (gameState.selectedUnit && hovered && legalHexes.some(hex => hex.q === hovered.q && hex.r === hovered.r)) {
+      this.renderReachableHexes([hovered], 'rgba(120, 200, 120, 0.5)', gameState);
+    }
   }
 
   /**
    * Render overlay on reachable hexes
    */
-  private renderReachableHexes(hexes: HexCoordinate[], color: string): void {
+  private renderReachableHexes(hexes: HexCoordinate[], color: string, gameState: GameState): void {
     hexes.forEach(hex => {
-      const vertices = this.calculateIsometricHexVertices(hex);
+      const lift = (gameState.getTileAt(hex)?.elevation ?? 0) * CONSTANTS.ELEVATION_STEP_HEIGHT;
+      const vertices = this.calculateIsometricHexVertices(hex, lift);
       
       this.ctx.fillStyle = color;
       this.ctx.strokeStyle = color.replace(/0\.\d+\)$/, '0.6)'); // More opaque border
@@ -70,16 +201,16 @@ export class PathRenderer {
   }
 
   /**
-   * Render animated path from start to end
+   * Render animated path from the unit to the hovered hex
    */
-  private renderPath(start: HexCoordinate, end: HexCoordinate, gameState: GameState): void {
-    // Use actual pathfinding to get the path
-    const path = PathfindingService.findPath(start, end, gameState);
+  private renderPath(unit: Unit, end: HexCoordinate, gameState: GameState): void {
+    // Same plan the move command will follow
+    const plan = PathfindingService.planMove(unit.position, end, unit.getRemainingMovement(), gameState, unit);
     
-    if (path.length === 0) return;
+    if (!plan) return;
     
     // Build full path including start
-    const fullPath = [start, ...path];
+    const fullPath = [unit.position, ...plan.path];
     
     // Draw path segments
     this.ctx.strokeStyle = '#f4d03f';
@@ -115,14 +246,13 @@ export class PathRenderer {
     }
     
     // Draw waypoint circles
-    const startPixel = this.hexToIsometricPixel(start);
+    const startPixel = this.hexToIsometricPixel(unit.position);
     const endPixel = this.hexToIsometricPixel(end);
     this.drawWaypoint(startPixel, '#4a7ba7');
     this.drawWaypoint(endPixel, '#f4d03f');
     
-    // Draw distance indicator
-    const distance = path.length;
-    this.drawDistanceIndicator(endPixel, distance);
+    // Draw movement cost indicator
+    this.drawCostIndicator(endPixel, plan.cost);
   }
 
   /**
@@ -162,10 +292,10 @@ export class PathRenderer {
   }
 
   /**
-   * Draw distance indicator showing movement cost
+   * Draw indicator showing the movement cost of the path
    */
-  private drawDistanceIndicator(pos: {x: number, y: number}, distance: number): void {
-    const text = distance.toString();
+  private drawCostIndicator(pos: {x: number, y: number}, cost: number): void {
+    const text = cost.toString();
     const offsetY = -20; // Position above the waypoint
     
     this.ctx.font = 'bold 14px Arial';
@@ -210,9 +340,11 @@ export class PathRenderer {
 
   /**
    * Calculate vertices for isometric hex (matching BattlefieldRenderer)
+   * Lift raises the hex onto elevated ground
    */
-  private calculateIsometricHexVertices(coord: HexCoordinate): Array<{ x: number; y: number }> {
-    const center = this.hexToIsometricPixel(coord);
+  private calculateIsometricHexVertices(coord: HexCoordinate, lift: number = 0): Array<{ x: number; y: number }> {
+    const ground = this.hexToIsometricPixel(coord);
+    const center = { x: ground.x, y: ground.y - lift };
     const vertices: Array<{ x: number; y: number }> = [];
     const verticalScale = 0.5;
 
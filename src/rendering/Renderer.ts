@@ -1,8 +1,18 @@
-import { GameState } from '../core/GameState';
+import { GameState, BurnDamageEvent } from '../core/GameState';
 import { BattlefieldRenderer } from './BattlefieldRenderer';
 import { UnitRenderer } from './UnitRenderer';
 import { PathRenderer } from './PathRenderer';
 import { ObstacleRenderer } from './ObstacleRenderer';
+import { ForecastRenderer } from './ForecastRenderer';
+import { CombatTextRenderer } from './CombatTextRenderer';
+import { ReplayStatus } from '../models/Replay';
+import { STATUS_EFFECT_LABELS } from '../models/StatusEffect';
+import { AttackExecutedEvent, KnockbackEvent, ObstacleDamagedEvent, ReactionType } from '../services/CombatService';
+
+const REACTION_LABELS: Record<ReactionType, string> = {
+  overwatch: 'OVERWATCH',
+  returnFire: 'RETURN FIRE'
+};
 
 /**
  * Main rendering orchestrator that manages all rendering subsystems
@@ -15,6 +25,9 @@ export class Renderer {
   private obstacleRenderer: ObstacleRenderer;
   private unitRenderer: UnitRenderer;
   private pathRenderer: PathRenderer;
+  private forecastRenderer: ForecastRenderer;
+  private combatTextRenderer: CombatTextRenderer;
+  private replayStatus: ReplayStatus | null = null;
 
   constructor(canvas: HTMLCanvasElement) {
     this.canvas = canvas;
@@ -33,6 +46,8 @@ export class Renderer {
     this.obstacleRenderer = new ObstacleRenderer(context, 50); // hexSize = 50
     this.unitRenderer = new UnitRenderer(context, 50, canvas); // hexSize = 50
     this.pathRenderer = new PathRenderer(context, 50, canvas); // hexSize = 50
+    this.forecastRenderer = new ForecastRenderer(context, 50, canvas); // hexSize = 50
+    this.combatTextRenderer = new CombatTextRenderer(context, 50, canvas); // hexSize = 50
     
     // Preload obstacle assets
     this.obstacleRenderer.preloadAssets();
@@ -69,8 +84,95 @@ export class Renderer {
     this.obstacleRenderer.render(gameState); // Obstacles after terrain
     this.pathRenderer.render(gameState); // Path overlays after obstacles
     this.unitRenderer.render(gameState);
+    this.combatTextRenderer.render();
+    this.forecastRenderer.render(gameState); // Tooltip above units
     
     // TODO: Effects rendering (Story 05)
+    
+    if (this.replayStatus) {
+      this.renderReplayOverlay(this.replayStatus);
+    }
+  }
+
+  /**
+   * Show the outcome of an attack as floating text over the target hex
+   */
+  public showAttackOutcome(event: AttackExecutedEvent): void {
+    // Out-of-turn shots are called out so the interruption is readable
+    const prefix = event.reaction ? `${REACTION_LABELS[event.reaction]} ` : '';
+    
+    if (!event.hit) {
+      this.combatTextRenderer.add(event.targetPosition, `${prefix}MISS`, '#E8DCC8');
+      return;
+    }
+
+    // Impact hex first (may be empty when bombarding), then the blast
+    const hits = event.targetId ? [{ position: event.targetPosition, damage: event.damage }] : [];
+    hits.push(...event.splashHits);
+
+    // Status effects ride along with the damage number
+    const suffix = event.inflicted ? ` ${STATUS_EFFECT_LABELS[event.inflicted].toUpperCase()}` : '';
+
+    hits.forEach(hit => {
+      if (event.critical) {
+        this.combatTextRenderer.add(hit.position, `${prefix}CRIT -${hit.damage}${suffix}`, '#f4d03f');
+      } else {
+        this.combatTextRenderer.add(hit.position, `${prefix}-${hit.damage}${suffix}`, '#E05D57');
+      }
+    });
+  }
+
+  /**
+   * Floating text for a unit shoved back by a heavy hit
+   */
+  public showKnockback(event: KnockbackEvent): void {
+    const text = event.collisionDamage > 0 ? `SLAM -${event.collisionDamage}` : 'PUSHED';
+    this.combatTextRenderer.add(event.to, text, '#E8A33D');
+  }
+
+  /**
+   * Floating text for fire damage at the start of a turn
+   */
+  public showBurnDamage(event: BurnDamageEvent): void {
+    this.combatTextRenderer.add(event.position, `-${event.damage}`, '#E8A33D');
+  }
+
+  /**
+   * Floating text for damage dealt to a building or ruin
+   */
+  public showObstacleDamage(event: ObstacleDamagedEvent): void {
+    const text = event.health > 0 ? `-${event.damage}` : 'COLLAPSED';
+    this.combatTextRenderer.add(event.position, text, '#C8B89A');
+  }
+
+  /**
+   * Enable replay viewer mode (null returns to normal battle rendering)
+   */
+  public setReplayStatus(status: ReplayStatus | null): void {
+    this.replayStatus = status;
+  }
+
+  /**
+   * Draw replay banner with playback position and view mode
+   */
+  private renderReplayOverlay(status: ReplayStatus): void {
+    const text = `REPLAY  Turn ${status.turn}/${status.totalTurns}  ·  Action ${status.action}/${status.totalActions}  ·  ${status.speed}x  ·  ${status.omniscient ? 'Omniscient' : 'Player Fog'}`;
+    
+    this.ctx.save();
+    this.ctx.font = 'bold 16px Courier New';
+    this.ctx.textAlign = 'left';
+    this.ctx.textBaseline = 'middle';
+    
+    const padding = 10;
+    const boxWidth = this.ctx.measureText(text).width + padding * 2;
+    const boxHeight = 32;
+    
+    this.ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
+    this.ctx.fillRect(16, 16, boxWidth, boxHeight);
+    
+    this.ctx.fillStyle = status.isPlaying ? '#f4d03f' : '#E8DCC8';
+    this.ctx.fillText(text, 16 + padding, 16 + boxHeight / 2);
+    this.ctx.restore();
   }
 
   /**
@@ -1,14 +1,19 @@
 import { GameState } from '../core/GameState';
 import { Unit } from '../models/Unit';
 import { HexCoordinate } from '../models/HexCoordinate';
-import { WeaponType } from '../utils/Constants';
+import { CONSTANTS, WeaponType } from '../utils/Constants';
+import { HexUtils } from '../utils/HexUtils';
 import turretSmall from '../assets/catapult.png';
 import turretMedium from '../assets/ballista.png';
 import turretLarge from '../assets/trebuchet.png';
+import flame1 from '../assets/flame-1.png';
+import flame2 from '../assets/flame-2.png';
+import flame3 from '../assets/flame-3.png';
+import flame4 from '../assets/flame-4.png';
 
 /**
  * Renders units (siege weapons) on the battlefield
- * Handles unit sprites, health bars, and selection highlighting
+ * Handles unit sprites, facing, health bars, and selection highlighting
  */
 export class UnitRenderer {
   private ctx: CanvasRenderingContext2D;
@@ -17,6 +22,7 @@ export class UnitRenderer {
   private centerY: number;
   private sprites: Map<WeaponType, HTMLImageElement> = new Map();
   private spritesLoaded: boolean = false;
+  private flameFrames: HTMLImageElement[] = [];
 
   constructor(ctx: CanvasRenderingContext2D, hexSize: number, canvas: HTMLCanvasElement) {
     this.ctx = ctx;
@@ -24,6 +30,18 @@ export class UnitRenderer {
     this.centerX = canvas.width / 2;
     this.centerY = canvas.height / 2;
     this.loadSprites();
+    this.loadFlameFrames();
+  }
+
+  /**
+   * Load the burning animation frames
+   */
+  private loadFlameFrames(): void {
+    this.flameFrames = [flame1, flame2, flame3, flame4].map(path => {
+      const img = new Image();
+      img.src = path;
+      return img;
+    });
   }
 
   /**
@@ -63,43 +81,123 @@ export class UnitRenderer {
     // Render all player units (always visible, only if alive)
     gameState.playerUnits.forEach(unit => {
       if (unit.isAlive()) {
-        this.drawUnit(unit, false);
+        this.drawUnit(unit, false, gameState);
       }
     });
     
     // Render only visible AI units (fog of war, only if alive)
+    const revealAll = gameState.visionService.isRevealAll();
     gameState.aiUnits.forEach(unit => {
-      if (unit.isAlive() && gameState.visionService.isUnitVisibleToPlayer(unit)) {
-        this.drawUnit(unit, true);
+      if (unit.isAlive() && (revealAll || gameState.visionService.isUnitVisibleToPlayer(unit))) {
+        this.drawUnit(unit, true, gameState);
       }
     });
     
     // Render selection highlight if unit selected and alive
     if (gameState.selectedUnit && gameState.selectedUnit.isAlive()) {
-      this.drawSelectionHighlight(gameState.selectedUnit);
+      this.drawSelectionHighlight(gameState.selectedUnit, gameState);
     }
   }
 
   /**
    * Draw a single unit with sprite and health bar
    */
-  private drawUnit(unit: Unit, isAI: boolean): void {
-    const pixelPos = this.hexToIsometricPixel(unit.position);
+  private drawUnit(unit: Unit, isAI: boolean, gameState: GameState): void {
+    const pixelPos = this.getStandingPixel(unit, gameState);
+    
+    // Facing marker on the ground, under the sprite
+    this.drawFacing(unit, pixelPos, isAI);
     
     // Draw weapon-specific shape (placeholder sprite)
-    this.drawWeaponSprite(unit.type, pixelPos, isAI);
+    this.drawWeaponSprite(unit.type, pixelPos, isAI, unit.facing);
+    
+    // Earthworks in front of dug-in units
+    this.drawFortifications(unit, pixelPos);
     
-    // Draw health bar above unit
+    // Draw health bar above unit, ammunition just below it
     this.drawHealthBar(unit, pixelPos);
+    this.drawAmmo(unit, pixelPos);
+    
+    // Status effects on top
+    this.drawStatusEffects(unit, pixelPos);
+  }
+
+  /**
+   * Draw an arrowhead on the ground pointing the way the unit faces
+   */
+  private drawFacing(unit: Unit, position: {x: number, y: number}, isAI: boolean): void {
+    const ahead = this.hexToIsometricPixel(HexUtils.neighbors(unit.position)[unit.facing]);
+    const origin = this.hexToIsometricPixel(unit.position);
+    const angle = Math.atan2(ahead.y - origin.y, ahead.x - origin.x);
+    
+    this.ctx.save();
+    this.ctx.translate(position.x, position.y + 6);
+    this.ctx.rotate(angle);
+    this.ctx.fillStyle = isAI ? CONSTANTS.COLORS.AI_UNIT : CONSTANTS.COLORS.PLAYER_UNIT;
+    this.ctx.strokeStyle = '#ffffff';
+    this.ctx.lineWidth = 1;
+    this.ctx.beginPath();
+    this.ctx.moveTo(30, 0);
+    this.ctx.lineTo(21, -6);
+    this.ctx.lineTo(21, 6);
+    this.ctx.closePath();
+    this.ctx.fill();
+    this.ctx.stroke();
+    this.ctx.restore();
+  }
+
+  /**
+   * Draw one sandbag ring around the front of the unit per fortify level
+   */
+  private drawFortifications(unit: Unit, position: {x: number, y: number}): void {
+    if (unit.fortifyLevel === 0) return;
+    
+    this.ctx.save();
+    this.ctx.strokeStyle = '#8b6b3d';
+    this.ctx.lineWidth = 3;
+    this.ctx.lineCap = 'round';
+    for (let level = 0; level < unit.fortifyLevel; level++) {
+      const radiusX = 20 + level * 5;
+      this.ctx.beginPath();
+      this.ctx.ellipse(position.x, position.y + 6, radiusX, radiusX * 0.5, 0, 0.15 * Math.PI, 0.85 * Math.PI);
+      this.ctx.stroke();
+    }
+    this.ctx.restore();
+  }
+
+  /**
+   * Draw animated flames on burning units and markers for stun/slow
+   */
+  private drawStatusEffects(unit: Unit, position: {x: number, y: number}): void {
+    if (unit.hasStatusEffect('burning')) {
+      const frame = this.flameFrames[Math.floor(Date.now() / CONSTANTS.FLAME_FRAME_DURATION) % this.flameFrames.length];
+      if (frame.complete && frame.naturalWidth > 0) {
+        const size = 28;
+        this.ctx.drawImage(frame, position.x - size / 2, position.y - size, size, size);
+      }
+    }
+    
+    const markers: string[] = [];
+    if (unit.hasStatusEffect('stunned')) markers.push('✦');
+    if (unit.hasStatusEffect('slowed')) markers.push('▼');
+    if (markers.length === 0) return;
+    
+    this.ctx.font = 'bold 12px Arial';
+    this.ctx.textAlign = 'center';
+    this.ctx.textBaseline = 'middle';
+    this.ctx.fillStyle = unit.hasStatusEffect('stunned') ? '#f4d03f' : '#7fb3d5';
+    this.ctx.fillText(markers.join(' '), position.x, position.y - 33);
   }
 
   /**
    * Draw weapon sprite image or fallback to colored shape
+   * The sprites face west, so they are mirrored for units facing east
    */
   private drawWeaponSprite(
     weaponType: WeaponType, 
     position: {x: number, y: number}, 
-    isAI: boolean
+    isAI: boolean,
+    facing: number
   ): void {
     const sprite = this.sprites.get(weaponType);
     
@@ -110,6 +208,11 @@ export class UnitRenderer {
       // Draw sprite
       this.ctx.save();
       this.ctx.globalAlpha = 1.0;
+      if (Math.cos(HexUtils.facingBearing(facing) * Math.PI / 180) > 0) {
+        this.ctx.translate(position.x, 0);
+        this.ctx.scale(-1, 1);
+        this.ctx.translate(-position.x, 0);
+      }
       this.ctx.drawImage(
         sprite,
         position.x - size / 2,
@@ -208,6 +311,31 @@ export class UnitRenderer {
     this.ctx.strokeRect(barX, barY, barWidth, barHeight);
   }
 
+  /**
+   * Draw one pip per remaining shot, with an hourglass while reloading
+   */
+  private drawAmmo(unit: Unit, position: {x: number, y: number}): void {
+    const capacity = unit.getAmmoCapacity();
+    const pipSize = 3;
+    const gap = 2;
+    const rowWidth = capacity * pipSize + (capacity - 1) * gap;
+    const startX = position.x - rowWidth / 2;
+    const pipY = position.y - 19;
+    
+    for (let i = 0; i < capacity; i++) {
+      this.ctx.fillStyle = i < unit.ammo ? '#e8c872' : 'rgba(0, 0, 0, 0.5)';
+      this.ctx.fillRect(startX + i * (pipSize + gap), pipY, pipSize, pipSize);
+    }
+    
+    if (unit.isReloading()) {
+      this.ctx.font = '10px Arial';
+      this.ctx.textAlign = 'left';
+      this.ctx.textBaseline = 'middle';
+      this.ctx.fillStyle = '#ffffff';
+      this.ctx.fillText('⧗', startX + rowWidth + 3, pipY + pipSize / 2);
+    }
+  }
+
   /**
    * Get health bar color based on health percentage
    * Green > 66%, Yellow 33-66%, Red < 33%
@@ -222,8 +350,8 @@ export class UnitRenderer {
    * Draw selection highlight around selected unit
    * Yellow dashed border
    */
-  private drawSelectionHighlight(unit: Unit): void {
-    const pixelPos = this.hexToIsometricPixel(unit.position);
+  private drawSelectionHighlight(unit: Unit, gameState: GameState): void {
+    const pixelPos = this.getStandingPixel(unit, gameState);
     const highlightSize = 40; // Larger than largest unit sprite
     
     this.ctx.strokeStyle = '#f4d03f'; // Yellow
@@ -239,7 +367,16 @@ export class UnitRenderer {
   }
 
   /**
-   * Convert hex cube coordinates to isometric pixel coordinates
+   * Pixel position of a unit, lifted onto raised ground
+   */
+  private getStandingPixel(unit: Unit, gameState: GameState): {x: number, y: number} {
+    const pixel = this.hexToIsometricPixel(unit.position);
+    const elevation = gameState.getTileAt(unit.position)?.elevation ?? 0;
+    return { x: pixel.x, y: pixel.y - elevation * CONSTANTS.ELEVATION_STEP_HEIGHT };
+  }
+
+  /**
+   * Convert hex coordinate to isometric pixel position (ground level)
    * Must match BattlefieldRenderer's projection
    */
   private hexToIsometricPixel(coord: HexCoordinate): {x: number, y: number} {
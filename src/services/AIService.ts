@@ -2,11 +2,12 @@ import { GameState } from '../core/GameState';
 import { Unit } from '../models/Unit';
 import { HexCoordinate } from '../models/HexCoordinate';
 import { PathfindingService } from './PathfindingService';
-import { CombatService } from './CombatService';
+import { CombatService, AttackForecast } from './CombatService';
 import { HexUtils } from '../utils/HexUtils';
 import { Logger } from '../utils/Logger';
 import { EventBus } from '../core/EventBus';
 import { CONSTANTS } from '../utils/Constants';
+import { MoveCommand, RotateCommand, AttackCommand, OverwatchCommand, FortifyCommand, ResupplyCommand, EndTurnCommand, DeployUnitCommand } from '../core/GameCommands';
 
 /**
  * AIService - Simple Tactical AI for Enemy Units
@@ -19,6 +20,49 @@ export class AIService {
     this.eventBus = EventBus.getInstance();
   }
 
+  /**
+   * Place AI units inside their deployment zone
+   * Strategy: Short-ranged units take the forward hexes, long-ranged units
+   * stay back, and units avoid bunching up next to each other.
+   * Deterministic (no RNG) so replays re-create the same placements.
+   * 
+   * @param gameState Game state in the deployment phase
+   */
+  public deployUnits(gameState: GameState): void {
+    const enemyAnchor = gameState.getDeploymentAnchor('player');
+    const candidates = gameState.getDeploymentZone('ai')
+      .filter(hex => gameState.isValidDeploymentHex('ai', hex))
+      .sort((a, b) =>
+        HexUtils.distance(a, enemyAnchor) - HexUtils.distance(b, enemyAnchor) ||
+        this.countAdjacentObstacles(b, gameState) - this.countAdjacentObstacles(a, gameState) ||
+        a.q - b.q ||
+        a.r - b.r
+      );
+    
+    const units = [...gameState.aiUnits].sort((a, b) =>
+      a.getAttackRange().max - b.getAttackRange().max || a.id.localeCompare(b.id)
+    );
+    
+    const chosen: HexCoordinate[] = [];
+    for (const unit of units) {
+      const available = candidates.filter(hex => !chosen.some(taken => HexUtils.equals(taken, hex)));
+      const spreadOut = available.find(hex => !chosen.some(taken => HexUtils.distance(taken, hex) <= 1));
+      const destination = spreadOut ?? available[0];
+      if (!destination) break;
+      
+      chosen.push(destination);
+      if (!HexUtils.equals(unit.position, destination)) {
+        gameState.dispatch(new DeployUnitCommand(unit.id, destination));
+      }
+    }
+    
+    Logger.info(`AI deployed ${chosen.length} units`);
+  }
+
+  private countAdjacentObstacles(hex: HexCoordinate, gameState: GameState): number {
+    return HexUtils.neighbors(hex).filter(neighbor => gameState.getTileAt(neighbor)?.obstacle).length;
+  }
+
   /**
    * Execute AI turn for all AI units
    * Strategy: Attack if possible, otherwise move closer to enemies
@@ -55,7 +99,7 @@ export class AIService {
     
     // End AI turn and switch to player
     Logger.info('=== AI Turn Complete ===');
-    gameState.switchTurn('player');
+    gameState.dispatch(new EndTurnCommand('ai'));
     this.eventBus.emit('playerTurnStarted');
   }
 
@@ -70,6 +114,19 @@ export class AIService {
   private async processUnit(unit: Unit, gameState: GameState): Promise<boolean> {
     Logger.debug(`Processing AI ${unit.type} at (${unit.position.q}, ${unit.position.r})`);
     
+    // Out of ammunition - head back to a supply point instead of fighting
+    if (unit.ammo === 0) {
+      await this.tryResupply(unit, gameState);
+      return false;
+    }
+    
+    // Holding a good firing position with the enemy closing in - dig in
+    // (once fully fortified the unit goes back to its usual plan)
+    if (this.holdsFiringPosition(unit, gameState) && gameState.dispatch(new FortifyCommand(unit.id)).success) {
+      Logger.info(`AI ${unit.type} fortified (level ${unit.fortifyLevel})`);
+      return false;
+    }
+    
     // Strategy: Attack if possible, otherwise move closer
     
     // 1. Try to attack first (before moving)
@@ -83,17 +140,22 @@ export class AIService {
       }
     }
     
-    // 2. Try to move if haven't moved yet
-    if (!unit.hasMovedThisTurn) {
+    // 2. Try to move if haven't moved yet (attacking ends movement)
+    if (unit.canMove()) {
       const moveExecuted = await this.tryMove(unit, gameState);
       
       if (moveExecuted) {
         Logger.info(`AI ${unit.type} moved to (${unit.position.q}, ${unit.position.r})`);
       }
+      
+      // Player overwatch may have destroyed the unit on the way
+      if (!unit.isAlive()) {
+        return gameState.playerUnits.length === 0;
+      }
     }
     
     // 3. Try to attack again after moving (if we can)
-    if (!unit.hasAttackedThisTurn) {
+    if (unit.canAttack()) {
       await this.tryAttack(unit, gameState);
       // Check if game ended
       if (gameState.playerUnits.length === 0) {
@@ -101,9 +163,43 @@ export class AIService {
       }
     }
     
+    // 4. Still holding a shot - watch for enemies closing in
+    if (unit.canAttack() && this.isThreatened(unit, gameState)) {
+      if (gameState.dispatch(new OverwatchCommand(unit.id)).success) {
+        Logger.info(`AI ${unit.type} on overwatch`);
+      }
+    }
+    
     return false;
   }
 
+  /**
+   * Check if a unit should hold its hex rather than advance - it stands in
+   * cover or on high ground, has nothing to shoot yet, and the enemy is close
+   * enough to walk into range next turn
+   */
+  private holdsFiringPosition(unit: Unit, gameState: GameState): boolean {
+    if (!unit.canAttack() || !unit.canFortify() || unit.fortifyLevel >= CONSTANTS.MAX_FORTIFY_LEVEL) return false;
+    
+    const hasTarget = CombatService.getValidTargets(unit, gameState)
+      .some(target => gameState.visionService.isUnitVisibleToAI(target));
+    if (hasTarget || !this.isThreatened(unit, gameState)) return false;
+    
+    const elevation = gameState.getTileAt(unit.position)?.elevation ?? 0;
+    return CombatService.getCover(unit.position, gameState) > 0 || elevation > 0;
+  }
+
+  /**
+   * Check if a visible player unit could move into this unit's range next turn
+   */
+  private isThreatened(unit: Unit, gameState: GameState): boolean {
+    const maxRange = unit.getAttackRange().max;
+    return gameState.playerUnits.some(enemy =>
+      gameState.visionService.isUnitVisibleToAI(enemy) &&
+      HexUtils.distance(unit.position, enemy.position) <= maxRange + enemy.getMovementRange()
+    );
+  }
+
   /**
    * Attempt to attack with AI unit
    * Prioritizes low-health targets that are visible
@@ -113,35 +209,38 @@ export class AIService {
    * @returns True if attack was executed successfully
    */
   private async tryAttack(unit: Unit, gameState: GameState): Promise<boolean> {
-    if (unit.hasAttackedThisTurn) {
-      Logger.debug(`${unit.type} has already attacked this turn`);
+    if (!unit.canAttack()) {
+      Logger.debug(`${unit.type} cannot fire this turn`);
       return false;
     }
     
     // Get valid targets in range
-    const targets = CombatService.getValidTargets(unit, gameState);
+    let targets = CombatService.getValidTargets(unit, gameState);
+    
+    // Nothing in the firing arc - swing round to face an enemy if possible
+    const isVisible = (target: Unit) => gameState.visionService.isUnitVisibleToAI(target);
+    if (!targets.some(isVisible) && this.tryTurnToTarget(unit, gameState)) {
+      targets = CombatService.getValidTargets(unit, gameState);
+    }
     
     // Filter to only visible targets (fog of war)
-    const visibleTargets = targets.filter(target => 
-      gameState.visionService.isUnitVisibleToAI(target)
-    );
+    const visibleTargets = targets.filter(isVisible);
     
     if (visibleTargets.length === 0) {
       Logger.debug(`${unit.type} has no visible targets in range`);
       return false;
     }
     
-    // Choose best target (lowest health = prioritize killing)
-    const target = this.selectBestTarget(visibleTargets);
+    // Choose best target by attack forecast
+    const target = this.selectBestTarget(unit, visibleTargets, gameState);
     
     Logger.info(`AI ${unit.type} targeting ${target.type} (${target.health} HP)`);
     
     // Execute attack
-    const result = CombatService.executeAttack(unit, target, gameState);
+    const { success, attack: result } = gameState.dispatch(new AttackCommand(unit.id, target.id));
     
-    if (result.success) {
-      this.eventBus.emit('attackExecuted', result);
-      
+    // CombatService emits attackExecuted for sounds and effects
+    if (success && result) {
       // Check for victory
       if (gameState.playerUnits.length === 0) {
         Logger.info('💀 DEFEAT! All player units destroyed!');
@@ -154,6 +253,40 @@ export class AIService {
     return false;
   }
 
+  /**
+   * Turn in place to bring a visible enemy outside the firing arc into it,
+   * if the unit has the movement to spare
+   * Prefers the cheapest turn, then the weakest enemy
+   * 
+   * @param unit AI unit looking for a shot
+   * @param gameState Current game state
+   * @returns True if the unit turned
+   */
+  private tryTurnToTarget(unit: Unit, gameState: GameState): boolean {
+    if (!unit.canMove()) return false;
+    
+    const options = gameState.playerUnits
+      .filter(enemy => enemy.isAlive() && gameState.visionService.isUnitVisibleToAI(enemy))
+      .map(enemy => ({ enemy, facing: HexUtils.facingTowards(unit.position, enemy.position) }))
+      .filter(({ enemy, facing }) =>
+        facing !== unit.facing &&
+        unit.getRotationCost(facing) <= unit.getRemainingMovement() &&
+        CombatService.canFireAt(unit, enemy.position, gameState, facing)
+      )
+      .sort((a, b) =>
+        unit.getRotationCost(a.facing) - unit.getRotationCost(b.facing) ||
+        a.enemy.health - b.enemy.health
+      );
+    
+    if (options.length === 0) return false;
+    
+    const { enemy, facing } = options[0];
+    if (!gameState.dispatch(new RotateCommand(unit.id, facing)).success) return false;
+    
+    Logger.info(`AI ${unit.type} turned to face ${enemy.type}`);
+    return true;
+  }
+
   /**
    * Attempt to move AI unit toward nearest enemy
    * Uses pathfinding to find best movement destination
@@ -164,16 +297,17 @@ export class AIService {
    * @returns True if movement was executed successfully
    */
   private async tryMove(unit: Unit, gameState: GameState): Promise<boolean> {
-    if (unit.hasMovedThisTurn) {
-      Logger.debug(`${unit.type} has already moved this turn`);
+    if (!unit.canMove()) {
+      Logger.debug(`${unit.type} cannot move this turn`);
       return false;
     }
     
     // Get reachable hexes
     const reachableHexes = PathfindingService.getReachableHexes(
       unit.position,
-      unit.getMovementRange(),
-      gameState
+      unit.getRemainingMovement(),
+      gameState,
+      unit
     );
     
     if (reachableHexes.length === 0) {
@@ -186,12 +320,17 @@ export class AIService {
     
     let destination: HexCoordinate;
     
-    if (nearestEnemy) {
+    if (nearestEnemy && unit.isReloading()) {
+      // Can't shoot back yet - keep clear of the enemy until reloaded
+      destination = this.selectRetreatDestination(reachableHexes, nearestEnemy.position);
+      Logger.debug(`${unit.type} keeping its distance while reloading`);
+    } else if (nearestEnemy) {
       // Enemy visible - move toward it at optimal range
       destination = this.selectBestMoveDestination(
         reachableHexes,
         nearestEnemy.position,
-        unit
+        unit,
+        gameState
       );
       Logger.debug(`${unit.type} moving toward visible enemy`);
     } else {
@@ -204,40 +343,133 @@ export class AIService {
       Logger.debug(`${unit.type} exploring unseen territory`);
     }
     
-    // Find path to destination
-    const path = PathfindingService.findPath(
+    // Plan the move with the same budget the command checks it against
+    const plan = PathfindingService.planMove(
       unit.position,
       destination,
-      gameState
+      unit.getRemainingMovement(),
+      gameState,
+      unit
     );
     
-    if (path.length > 0) {
-      const oldPos = unit.position;
-      unit.position = destination;
-      unit.hasMovedThisTurn = true;
-      
-      // Update fog of war after AI movement
-      gameState.updateVision();
-      
-      this.eventBus.emit('unitMoved', { unit, path, oldPosition: oldPos });
-      return true;
+    if (plan) {
+      // Fog of war, overwatch and move events are handled by the command
+      const { success, reactions } = gameState.dispatch(new MoveCommand(unit.id, destination));
+      if (reactions && reactions.length > 0) {
+        Logger.info(`AI ${unit.type} caught by overwatch fire`);
+      }
+      return success;
     }
     
     Logger.debug(`${unit.type} could not find path to destination`);
     return false;
   }
 
+  /**
+   * Refill an empty unit's ammunition, moving toward the nearest supply
+   * cart or castle first when none is in reach
+   * 
+   * @param unit AI unit with no shots left
+   * @param gameState Current game state
+   * @returns True if the unit resupplied this turn
+   */
+  private async tryResupply(unit: Unit, gameState: GameState): Promise<boolean> {
+    if (!gameState.isNearSupply(unit.position) && unit.canMove()) {
+      const supplyPoints = gameState.getSupplyPoints();
+      if (supplyPoints.length === 0) {
+        Logger.debug(`${unit.type} is out of ammunition with nowhere to resupply`);
+        return false;
+      }
+      
+      const reachableHexes = PathfindingService.getReachableHexes(
+        unit.position,
+        unit.getRemainingMovement(),
+        gameState,
+        unit
+      );
+      const supplyDistance = (hex: HexCoordinate) =>
+        Math.min(...supplyPoints.map(point => HexUtils.distance(hex, point)));
+      
+      let bestHex: HexCoordinate | null = null;
+      let bestDistance = supplyDistance(unit.position);
+      for (const hex of reachableHexes) {
+        const distance = supplyDistance(hex);
+        if (distance < bestDistance) {
+          bestDistance = distance;
+          bestHex = hex;
+        }
+      }
+      
+      if (bestHex && gameState.dispatch(new MoveCommand(unit.id, bestHex)).success) {
+        Logger.info(`AI ${unit.type} falling back to resupply`);
+      }
+    }
+    
+    const resupplied = gameState.dispatch(new ResupplyCommand(unit.id)).success;
+    if (resupplied) {
+      Logger.info(`AI ${unit.type} resupplied`);
+    }
+    return resupplied;
+  }
+
+  /**
+   * Select the reachable hex furthest from a threat
+   * 
+   * @param reachableHexes Available movement destinations
+   * @param threatPosition Enemy to keep away from
+   * @returns Best hex to fall back to
+   */
+  private selectRetreatDestination(
+    reachableHexes: HexCoordinate[],
+    threatPosition: HexCoordinate
+  ): HexCoordinate {
+    let bestHex = reachableHexes[0];
+    let bestDistance = HexUtils.distance(bestHex, threatPosition);
+    
+    for (const hex of reachableHexes) {
+      const distance = HexUtils.distance(hex, threatPosition);
+      if (distance > bestDistance) {
+        bestDistance = distance;
+        bestHex = hex;
+      }
+    }
+    
+    return bestHex;
+  }
+
   /**
    * Select best attack target
-   * Strategy: Prioritize low-health targets to maximize kills
+   * Strategy: Rank targets by attack forecast - sure kills first, then
+   * expected damage (cover, high ground and blast included, friendly fire
+   * subtracted), then the least return fire, then the weakest target
    * 
+   * @param unit AI unit attacking
    * @param targets Available enemy targets
+   * @param gameState Current game state
    * @returns Best target to attack
    */
-  private selectBestTarget(targets: Unit[]): Unit {
-    // Sort by health ascending (weakest first)
-    const sorted = [...targets].sort((a, b) => a.health - b.health);
-    return sorted[0];
+  private selectBestTarget(unit: Unit, targets: Unit[], gameState: GameState): Unit {
+    const scored = targets.map(target => ({
+      target,
+      forecast: CombatService.forecast(unit, target, gameState)
+    }));
+    
+    scored.sort((a, b) =>
+      b.forecast.killChance - a.forecast.killChance ||
+      this.getNetDamage(b.forecast) - this.getNetDamage(a.forecast) ||
+      a.forecast.counterDamage - b.forecast.counterDamage ||
+      a.target.health - b.target.health ||
+      a.target.id.localeCompare(b.target.id)
+    );
+    return scored[0].target;
+  }
+
+  /**
+   * Expected damage to the enemy side (target and blast) minus friendly fire
+   * and any immediate return fire
+   */
+  private getNetDamage(forecast: AttackForecast): number {
+    return forecast.expectedDamage + forecast.splashDamage - forecast.friendlyDamage - forecast.returnFireDamage;
   }
 
   /**
@@ -275,25 +507,29 @@ export class AIService {
   /**
    * Select best movement destination
    * Strategy: Move to optimal range (respects minRange to avoid getting too close)
+   * High ground counts - it extends the range the unit can fire from
    * 
    * @param reachableHexes Available movement destinations
    * @param targetPosition Target to move toward
    * @param unit AI unit performing the movement (to check weapon minRange)
+   * @param gameState Current game state (for elevation)
    * @returns Best hex to move to
    */
   private selectBestMoveDestination(
     reachableHexes: HexCoordinate[],
     targetPosition: HexCoordinate,
-    unit: Unit
+    unit: Unit,
+    gameState: GameState
   ): HexCoordinate {
     const weapon = unit.getWeaponStats();
     const minRange = weapon.attackRangeMin;
-    const maxRange = weapon.attackRangeMax;
+    const maxRangeFrom = (hex: HexCoordinate) => weapon.attackRangeMax +
+      CombatService.getHeightAdvantage(hex, targetPosition, gameState) * CONSTANTS.ELEVATION_RANGE_BONUS;
     
     // Find hexes within optimal attack range
     const optimalHexes = reachableHexes.filter(hex => {
       const distance = HexUtils.distance(hex, targetPosition);
-      return distance >= minRange && distance <= maxRange;
+      return distance >= minRange && distance <= maxRangeFrom(hex);
     });
     
     // If we can reach optimal range, choose closest to target within that range
@@ -0,0 +1,59 @@
+/**
+ * BattleRepository - LocalStorage Persistence
+ * Handles saving and loading an in-progress battle
+ */
+
+import { BattleSnapshot, BATTLE_SNAPSHOT_VERSION } from '../models/BattleSnapshot';
+import { CONSTANTS } from '../utils/Constants';
+import { Logger } from '../utils/Logger';
+
+export class BattleRepository {
+  private static STORAGE_KEY = CONSTANTS.BATTLE_SAVE_KEY;
+
+  static save(snapshot: BattleSnapshot): boolean {
+    try {
+      const json = JSON.stringify(snapshot);
+      localStorage.setItem(this.STORAGE_KEY, json);
+      Logger.info(`Battle saved (turn ${snapshot.turnCount})`);
+      return true;
+    } catch (error) {
+      Logger.error('Failed to save battle', error);
+      // Handle quota exceeded or privacy mode
+      return false;
+    }
+  }
+
+  static load(): BattleSnapshot | null {
+    try {
+      const json = localStorage.getItem(this.STORAGE_KEY);
+      if (json) {
+        const snapshot = JSON.parse(json) as BattleSnapshot;
+        if (snapshot.version !== BATTLE_SNAPSHOT_VERSION) {
+          Logger.warn(`Discarding battle save with unsupported version ${snapshot.version}`);
+          this.clear();
+          return null;
+        }
+        Logger.info(`Battle loaded (turn ${snapshot.turnCount})`);
+        return snapshot;
+      }
+    } catch (error) {
+      Logger.error('Failed to load battle', error);
+    }
+    
+    return null;
+  }
+
+  static hasSave(): boolean {
+    try {
+      const json = localStorage.getItem(this.STORAGE_KEY);
+      return json !== null && (JSON.parse(json) as BattleSnapshot).version === BATTLE_SNAPSHOT_VERSION;
+    } catch {
+      return false;
+    }
+  }
+
+  static clear(): void {
+    localStorage.removeItem(this.STORAGE_KEY);
+    Logger.info('Battle save cleared');
+  }
+}
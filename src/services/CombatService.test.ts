@@ -0,0 +1,158 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { CombatService } from './CombatService';
+import { RandomService } from './RandomService';
+import { GameState } from '../core/GameState';
+import { BattleRules, DEFAULT_BATTLE_RULES } from '../models/BattleRules';
+import { Obstacle } from '../models/Obstacle';
+import { Unit } from '../models/Unit';
+import { HexUtils } from '../utils/HexUtils';
+import { CONSTANTS, WeaponType } from '../utils/Constants';
+
+/**
+ * Battle on open, flat ground - the AI attacks, so fog of war never blocks the shot
+ */
+function createFlatBattle(rules: BattleRules = DEFAULT_BATTLE_RULES, army: WeaponType[] = ['catapult']): GameState {
+  const gameState = new GameState();
+  gameState.initialize(army, 1, rules);
+  gameState.getAllTiles().forEach(tile => {
+    tile.obstacle = null;
+    tile.elevation = 0;
+  });
+  gameState.beginBattle();
+  return gameState;
+}
+
+beforeAll(() => {
+  // Battle setup logs every step
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'debug').mockImplementation(() => {});
+});
+
+describe('CombatService high ground', () => {
+  it('extends the range a unit can attack at by its height advantage', () => {
+    const gameState = createFlatBattle();
+    const attacker = gameState.aiUnits[0];
+    const target = gameState.playerUnits[0];
+    const maxRange = attacker.getAttackRange().max;
+
+    gameState.relocateUnit(attacker, HexUtils.create(-3, 0));
+    gameState.relocateUnit(target, HexUtils.create(-3 + maxRange + 1, 0));
+    attacker.facing = HexUtils.facingTowards(attacker.position, target.position);
+    expect(CombatService.canAttack(attacker, target, gameState)).toBe(false);
+
+    gameState.getTileAt(attacker.position)!.elevation = 1;
+    expect(CombatService.getHeightAdvantage(attacker.position, target.position, gameState)).toBe(1);
+    expect(CombatService.canAttack(attacker, target, gameState)).toBe(true);
+  });
+
+  it('gives no range bonus when firing uphill', () => {
+    const gameState = createFlatBattle();
+    const attacker = gameState.aiUnits[0];
+    const target = gameState.playerUnits[0];
+    const maxRange = attacker.getAttackRange().max;
+
+    gameState.relocateUnit(attacker, HexUtils.create(-3, 0));
+    gameState.relocateUnit(target, HexUtils.create(-3 + maxRange + 1, 0));
+    attacker.facing = HexUtils.facingTowards(attacker.position, target.position);
+    gameState.getTileAt(target.position)!.elevation = CONSTANTS.MAX_ELEVATION;
+
+    expect(CombatService.getHeightAdvantage(attacker.position, target.position, gameState)).toBe(0);
+    expect(CombatService.canAttack(attacker, target, gameState)).toBe(false);
+  });
+});
+
+describe('CombatService return fire', () => {
+  /**
+   * The AI's first unit and the player's catapult four hexes apart, facing each other
+   */
+  function createDuel(): { gameState: GameState; attacker: Unit; defender: Unit } {
+    const gameState = createFlatBattle({ ...DEFAULT_BATTLE_RULES, counterFire: true });
+    const attacker = gameState.aiUnits[0];
+    const defender = gameState.playerUnits[0];
+
+    gameState.relocateUnit(attacker, HexUtils.create(-2, 0));
+    gameState.relocateUnit(defender, HexUtils.create(2, 0));
+    attacker.facing = HexUtils.facingTowards(attacker.position, defender.position);
+    defender.facing = HexUtils.facingTowards(defender.position, attacker.position);
+    return { gameState, attacker, defender };
+  }
+
+  it('answers only the first attack between the defender\'s own turns', () => {
+    const { gameState, attacker, defender } = createDuel();
+
+    const result = CombatService.executeAttack(attacker, defender, gameState);
+    expect(defender.isAlive()).toBe(true);
+    expect(result.returnFire).toBeDefined();
+
+    // Its catapult is loaded again, but it already had its say
+    expect(defender.isReloading()).toBe(false);
+    expect(CombatService.canReturnFire(defender, attacker, gameState)).toBe(false);
+
+    defender.resetTurnActions();
+    expect(CombatService.canReturnFire(defender, attacker, gameState)).toBe(true);
+  });
+
+  it('is not provoked by shelling an empty hex next to the defender', () => {
+    const { gameState, defender } = createDuel();
+    const attacker = gameState.aiUnits.find(unit => unit.getBlastRadius() > 0)!;
+    gameState.relocateUnit(attacker, HexUtils.create(-2, 1));
+    const impact = HexUtils.create(2, -1);
+    attacker.facing = HexUtils.facingTowards(attacker.position, impact);
+
+    expect(CombatService.canBombard(attacker, impact, gameState)).toBe(true);
+    const result = CombatService.executeBombard(attacker, impact, gameState);
+
+    expect(result.returnFire).toBeUndefined();
+    expect(defender.hasReturnedFireThisTurn).toBe(false);
+  });
+
+  it('forecasts no return fire from a target knocked back out of range', () => {
+    const { gameState, defender } = createDuel();
+    const attacker = gameState.aiUnits.find(unit => unit.type === 'trebuchet')!;
+    gameState.relocateUnit(attacker, HexUtils.create(-3, 0));
+    attacker.facing = HexUtils.facingTowards(attacker.position, defender.position);
+    gameState.updateVision();
+
+    // At the edge of the catapult's range - a push takes it out of reach
+    expect(HexUtils.distance(attacker.position, defender.position)).toBe(defender.getAttackRange().max);
+    const pushed = CombatService.forecast(attacker, defender, gameState).returnFireDamage;
+
+    // Unless something stops the push
+    gameState.getTileAt(HexUtils.create(3, 0))!.obstacle = new Obstacle('ROCK_LARGE', new RandomService(1));
+    const pinned = CombatService.forecast(attacker, defender, gameState).returnFireDamage;
+
+    expect(pushed).toBeGreaterThan(0);
+    expect(pushed).toBeLessThan(pinned);
+  });
+});
+
+describe('CombatService knockback', () => {
+  it('pushes the target into the hex of a unit the same blast destroyed', () => {
+    const gameState = createFlatBattle(DEFAULT_BATTLE_RULES, ['catapult', 'catapult']);
+    const attacker = gameState.aiUnits.find(unit => unit.type === 'trebuchet')!;
+    const spotter = gameState.aiUnits.find(unit => unit !== attacker)!;
+    const [target, behind] = gameState.playerUnits;
+
+    gameState.relocateUnit(attacker, HexUtils.create(-3, 0));
+    gameState.relocateUnit(spotter, HexUtils.create(-1, 0));
+    gameState.relocateUnit(target, HexUtils.create(2, 0));
+    gameState.relocateUnit(behind, HexUtils.create(3, 0));
+    attacker.facing = HexUtils.facingTowards(attacker.position, target.position);
+    behind.health = 1;
+    gameState.updateVision();
+
+    // A plain hit (no crit or stun) at full damage
+    vi.spyOn(gameState.rng, 'chance')
+      .mockReturnValueOnce(true)
+      .mockReturnValueOnce(false)
+      .mockReturnValueOnce(false);
+    vi.spyOn(gameState.rng, 'next').mockReturnValueOnce(0.5);
+
+    const result = CombatService.executeAttack(attacker, target, gameState);
+
+    expect(result.damage).toBeGreaterThanOrEqual(CONSTANTS.KNOCKBACK_DAMAGE_THRESHOLD);
+    expect(result.splashHits).toEqual([{ unit: behind, damage: expect.any(Number), destroyed: true }]);
+    expect(result.knockback).toMatchObject({ to: HexUtils.create(3, 0), collisionDamage: 0 });
+    expect(target.health).toBe(CONSTANTS.STARTING_HEALTH - result.damage);
+  });
+});
@@ -1,10 +1,16 @@
 import { Unit } from '../models/Unit';
 import { HexCoordinate } from '../models/HexCoordinate';
+import { Obstacle } from '../models/Obstacle';
+import { getArmorMultiplier } from '../models/WeaponStats';
 import { GameState } from '../core/GameState';
 import { HexUtils } from '../utils/HexUtils';
-import { CONSTANTS } from '../utils/Constants';
+import { CONSTANTS, ObstacleType, PlayerType, StatusEffectType, WeaponType } from '../utils/Constants';
 import { Logger } from '../utils/Logger';
 import { EventBus } from '../core/EventBus';
+import { VisibilityState } from './VisionService';
+
+// Slack for rounding when a hex lies exactly on the edge of an arc
+const ARC_EPSILON = 1e-6;
 
 /**
  * CombatService - Attack Resolution and Damage Calculation
@@ -12,35 +18,103 @@ import { EventBus } from '../core/EventBus';
  */
 export class CombatService {
   /**
-   * Calculate all hexes within attack range of a unit
-   * Uses hex distance to determine valid attack positions
+   * Calculate all hexes a unit can actually shoot at
+   * Direct-fire weapons only reach hexes with a clear line of fire
    * 
    * @param unit Attacking unit
    * @param gameState Current game state
    * @returns Array of hex coordinates in attack range
    */
   public static getAttackRange(unit: Unit, gameState: GameState): HexCoordinate[] {
-    const range = unit.getAttackRange();
     const attackableHexes: HexCoordinate[] = [];
     
     // Iterate through all battlefield hexes
     gameState.battlefield.forEach((tile) => {
-      const coord = tile.coordinate;
-      const distance = HexUtils.distance(unit.position, coord);
-      
-      // Check if in range (between min and max)
-      // Also check if within playable area (shrink zone)
-      if (distance >= range.min && distance <= range.max) {
-        const centerDistance = HexUtils.distance(coord, HexUtils.create(0, 0));
-        if (centerDistance <= gameState.shrinkRadius) {
-          attackableHexes.push(coord);
-        }
+      if (this.canFireAt(unit, tile.coordinate, gameState)) {
+        attackableHexes.push(tile.coordinate);
       }
     });
     
     return attackableHexes;
   }
 
+  /**
+   * Check if a unit's weapon can reach a hex from where it stands
+   * Range (extended when firing downhill), firing arc, playable area
+   * (shrink zone) and line of fire for direct weapons
+   * 
+   * @param unit Attacking unit
+   * @param coord Hex being targeted
+   * @param gameState Current game state
+   * @param facing Direction the unit would face (defaults to its current facing)
+   * @returns True if the hex can be shot at
+   */
+  public static canFireAt(unit: Unit, coord: HexCoordinate, gameState: GameState, facing: number = unit.facing): boolean {
+    const range = unit.getAttackRange();
+    const maxRange = range.max + this.getHeightAdvantage(unit.position, coord, gameState) * CONSTANTS.ELEVATION_RANGE_BONUS;
+    const distance = HexUtils.distance(unit.position, coord);
+    if (distance < range.min || distance > maxRange) return false;
+    if (!this.isInFiringArc(unit, coord, facing)) return false;
+    
+    const centerDistance = HexUtils.distance(coord, HexUtils.create(0, 0));
+    if (centerDistance > gameState.shrinkRadius) return false;
+    
+    return unit.getFireMode() === 'indirect' || this.hasLineOfFire(unit.position, coord, gameState);
+  }
+
+  /**
+   * Check a hex lies inside the weapon's firing arc (hexes on the edge count)
+   * 
+   * @param unit Attacking unit
+   * @param coord Hex being targeted
+   * @param facing Direction the unit would face (defaults to its current facing)
+   * @returns True if the weapon can be brought to bear on the hex
+   */
+  public static isInFiringArc(unit: Unit, coord: HexCoordinate, facing: number = unit.facing): boolean {
+    const offset = HexUtils.angleBetween(HexUtils.bearing(unit.position, coord), HexUtils.facingBearing(facing));
+    return offset <= unit.getFiringArc() / 2 + ARC_EPSILON;
+  }
+
+  /**
+   * Check a shot from a hex strikes a unit from behind (edge hexes don't count)
+   */
+  public static isRearAttack(from: HexCoordinate, victim: Unit): boolean {
+    const offset = HexUtils.angleBetween(HexUtils.bearing(victim.position, from), HexUtils.facingBearing(victim.facing));
+    return offset > 180 - CONSTANTS.REAR_ARC / 2 + ARC_EPSILON;
+  }
+
+  /**
+   * Check for an unobstructed straight shot between two hexes
+   * Sight-blocking obstacles and impassable structures (castles, churches)
+   * stop direct fire - obstacles on either end hex do not
+   * 
+   * @param from Firing hex
+   * @param to Target hex
+   * @param gameState Current game state
+   * @returns True if a direct-fire weapon can hit the target hex
+   */
+  public static hasLineOfFire(from: HexCoordinate, to: HexCoordinate, gameState: GameState): boolean {
+    const isClear = (line: HexCoordinate[]) => line.slice(1, -1).every(hex => {
+      const obstacle = gameState.getTileAt(hex)?.obstacle;
+      return !obstacle || (!obstacle.blocksLineOfSight && obstacle.movementCost !== Infinity);
+    });
+    
+    // Shots along a hex edge get through if either side is clear
+    return isClear(HexUtils.lineDraw(from, to, 1e-6)) || isClear(HexUtils.lineDraw(from, to, -1e-6));
+  }
+
+  /**
+   * Check if a hex is currently seen by any unit on a side
+   * Indirect fire at unspotted hexes is less effective
+   */
+  public static isSpotted(coord: HexCoordinate, owner: PlayerType, gameState: GameState): boolean {
+    const key = HexUtils.toKey(coord);
+    const visibility = owner === 'player'
+      ? gameState.visionService.getTileVisibilityForPlayer(key)
+      : gameState.visionService.getTileVisibilityForAI(key);
+    return visibility === VisibilityState.VISIBLE;
+  }
+
   /**
    * Get all valid enemy targets within attack range
    * Filters enemy units that are within attackable hexes
@@ -69,17 +143,17 @@ export class CombatService {
    * 
    * @param attacker Attacking unit
    * @param target Target unit
-   * @param gameState Current game state (optional, for fog of war check)
+   * @param gameState Current game state (range, line of fire and fog of war)
    * @returns True if target can be attacked
    */
   public static canAttack(
     attacker: Unit, 
     target: Unit,
-    gameState?: GameState
+    gameState: GameState
   ): boolean {
-    // Cannot attack if already attacked this turn
-    if (attacker.hasAttackedThisTurn) {
-      Logger.debug('Unit has already attacked this turn');
+    // Cannot attack if already attacked this turn, reloading or out of ammo
+    if (!attacker.canAttack()) {
+      Logger.debug('Unit cannot fire this turn');
       return false;
     }
     
@@ -89,15 +163,10 @@ export class CombatService {
       return false;
     }
     
-    // Must be in attack range
-    const distance = HexUtils.distance(
-      attacker.position, 
-      target.position
-    );
-    const range = attacker.getAttackRange();
-    
-    if (distance < range.min || distance > range.max) {
-      Logger.debug(`Target out of range: ${distance} (need ${range.min}-${range.max})`);
+    // Must be in range (extended from high ground), in the firing arc and,
+    // for direct fire, have a clear shot
+    if (!this.canFireAt(attacker, target.position, gameState)) {
+      Logger.debug('Target out of range or line of fire');
       return false;
     }
     
@@ -108,7 +177,7 @@ export class CombatService {
     }
     
     // Check fog of war: player can only attack visible enemies
-    if (gameState && attacker.owner === 'player') {
+    if (attacker.owner === 'player') {
       if (!gameState.visionService.isUnitVisibleToPlayer(target)) {
         Logger.debug('Cannot attack unit in fog of war');
         return false;
@@ -135,45 +204,553 @@ export class CombatService {
     // Validate attack
     if (!this.canAttack(attacker, target, gameState)) {
       Logger.warn('Invalid attack attempted');
-      return { success: false, damage: 0, targetDestroyed: false };
+      return { success: false, damage: 0, targetDestroyed: false, hit: false, missed: false, critical: false, inflicted: null, splashHits: [] };
     }
     
-    // Calculate damage (minimum 1)
-    const damage = Math.max(CONSTANTS.MIN_DAMAGE, attacker.getDamage());
+    return this.resolveReturnFire(attacker, this.resolveShot(attacker, target.position, gameState), gameState);
+  }
+
+  /**
+   * Check if a unit on overwatch can take its held shot at a moving enemy
+   * The mover must be in range and line of fire, and seen by the watcher's side
+   * 
+   * @param watcher Unit on overwatch
+   * @param mover Enemy unit that just stepped onto a hex
+   * @param gameState Current game state
+   * @returns True if the reaction shot fires
+   */
+  public static canReactTo(watcher: Unit, mover: Unit, gameState: GameState): boolean {
+    if (!watcher.overwatch || !watcher.isAlive() || !mover.isAlive()) return false;
+    if (watcher.owner === mover.owner || watcher.ammo === 0 || watcher.isReloading()) return false;
     
-    // Store target health before damage for logging
-    const targetHealthBefore = target.health;
+    return this.canFireAt(watcher, mover.position, gameState) &&
+      this.isSpotted(mover.position, watcher.owner, gameState);
+  }
+
+  /**
+   * Fire an overwatch unit's held shot at an enemy moving through its zone
+   * 
+   * @param watcher Unit on overwatch (validated with canReactTo)
+   * @param mover Enemy unit being shot at
+   * @param gameState Current game state
+   * @returns Attack result
+   */
+  public static executeReactionFire(watcher: Unit, mover: Unit, gameState: GameState): AttackResult {
+    watcher.overwatch = false;
+    return this.resolveOffTurnShot(watcher, mover.position, 'overwatch', gameState);
+  }
+
+  /**
+   * Check if a defender shoots straight back at its attacker (optional
+   * return fire rule) - it needs the attacker in range and a shot ready,
+   * and only answers the first attack between its own turns
+   * 
+   * @param defender Unit that was shot at
+   * @param attacker Unit that fired
+   * @param gameState Current game state
+   * @returns True if the defender returns fire
+   */
+  public static canReturnFire(defender: Unit, attacker: Unit, gameState: GameState): boolean {
+    if (!gameState.rules.counterFire) return false;
+    if (!defender.isAlive() || !attacker.isAlive() || defender.owner === attacker.owner) return false;
+    if (defender.hasReturnedFireThisTurn || defender.ammo === 0 || defender.isReloading()) return false;
     
-    // Apply damage to target
-    target.takeDamage(damage);
+    return this.canFireAt(defender, attacker.position, gameState);
+  }
+
+  /**
+   * Let the surviving target of an attack return fire at reduced damage
+   * Return fire never provokes return fire of its own, and neither does
+   * shelling a hex with no enemy in it - units only caught by the splash
+   * don't shoot back
+   */
+  private static resolveReturnFire(attacker: Unit, result: AttackResult, gameState: GameState): AttackResult {
+    const defender = result.target;
+    if (!defender || !this.canReturnFire(defender, attacker, gameState)) {
+      return result;
+    }
     
-    // Mark attacker as having attacked
-    attacker.hasAttackedThisTurn = true;
+    Logger.info(`${defender.type} (${defender.owner}) returns fire at ${attacker.type}`);
+    defender.hasReturnedFireThisTurn = true;
+    result.returnFire = this.resolveOffTurnShot(defender, attacker.position, 'returnFire', gameState);
+    return result;
+  }
+
+  /**
+   * Resolve a shot fired during the enemy's turn (overwatch or return fire)
+   */
+  private static resolveOffTurnShot(
+    unit: Unit,
+    impact: HexCoordinate,
+    reaction: ReactionType,
+    gameState: GameState
+  ): AttackResult {
+    const result = this.resolveShot(unit, impact, gameState, reaction);
     
-    Logger.info(`${attacker.type} dealt ${damage} damage to ${target.type} (${targetHealthBefore} → ${target.health} HP)`);
+    // Fired outside the unit's own turn, so the reload starts counting now
+    unit.tickReload();
+    return result;
+  }
+
+  /**
+   * Predict the outcome of an attack without changing any state
+   * Counter damage is what the target could be expected to deal back to the
+   * attacker's current hex on its next turn (0 if it can't reach or is sure to die)
+   * 
+   * @param attacker Attacking unit
+   * @param target Target unit
+   * @param gameState Current game state
+   * @returns Forecast of damage, hit and kill chances
+   */
+  public static forecast(attacker: Unit, target: Unit, gameState: GameState): AttackForecast {
+    const stats = attacker.getWeaponStats();
+    const armorModifier = this.getArmorModifier(attacker, target);
+    const baseDamage = this.getDamageAt(attacker, target.position, gameState) * this.getVictimModifier(attacker, target, gameState);
+    const hitChance = this.getHitChance(attacker, target.position);
+    const critFactor = 1 + stats.critChance * (CONSTANTS.CRIT_DAMAGE_MULTIPLIER - 1);
+    
+    const chanceToDeal = (amount: number) => hitChance * (
+      (1 - stats.critChance) * this.getChanceToDeal(amount, baseDamage, stats.damageVariance) +
+      stats.critChance * this.getChanceToDeal(amount, baseDamage * CONSTANTS.CRIT_DAMAGE_MULTIPLIER, stats.damageVariance)
+    );
+    const killChance = chanceToDeal(target.health);
+    
+    // Expected splash on everyone else caught in the blast
+    let splashDamage = 0;
+    let friendlyDamage = 0;
+    this.getUnitsInBlast(attacker, target.position, gameState)
+      .filter(unit => unit !== target)
+      .forEach(unit => {
+        const falloff = this.getBlastMultiplier(attacker, HexUtils.distance(target.position, unit.position));
+        const expected = hitChance * this.getDamageAt(attacker, target.position, gameState) *
+          this.getVictimModifier(attacker, unit, gameState) * falloff * critFactor;
+        if (unit.owner === attacker.owner) {
+          friendlyDamage += expected;
+        } else {
+          splashDamage += expected;
+        }
+      });
+    
+    const canCounter = killChance < 1 && this.canFireAt(target, attacker.position, gameState);
+    const counterDamage = canCounter
+      ? Math.round(this.getExpectedDamage(target, attacker, gameState))
+      : 0;
+    
+    // Immediate return fire (optional rule) only comes from a surviving target,
+    // and one knocked back fires from where it lands - or not at all if the
+    // collision finishes it off
+    const knockbackChance = Math.max(0, chanceToDeal(CONSTANTS.KNOCKBACK_DAMAGE_THRESHOLD) - killChance);
+    const knockbackDestination = HexUtils.stepAway(attacker.position, target.position);
+    const returnFireHere = this.getReturnFireFrom(target, target.position, attacker, gameState);
+    let returnFire = (1 - killChance - knockbackChance) * returnFireHere;
+    if (this.isKnockbackBlocked(knockbackDestination, gameState)) {
+      const crushedChance = Math.max(0, chanceToDeal(
+        Math.max(CONSTANTS.KNOCKBACK_DAMAGE_THRESHOLD, target.health - CONSTANTS.KNOCKBACK_COLLISION_DAMAGE)
+      ) - killChance);
+      returnFire += (knockbackChance - crushedChance) * returnFireHere;
+    } else {
+      returnFire += knockbackChance * this.getReturnFireFrom(target, knockbackDestination, attacker, gameState);
+    }
+    const returnFireDamage = Math.round(returnFire);
+    
+    return {
+      expectedDamage: hitChance * baseDamage * critFactor,
+      minDamage: Math.max(CONSTANTS.MIN_DAMAGE, Math.round(baseDamage * (1 - stats.damageVariance))),
+      maxDamage: Math.round(baseDamage * (1 + stats.damageVariance) * CONSTANTS.CRIT_DAMAGE_MULTIPLIER),
+      hitChance,
+      killChance,
+      canKill: killChance > 0,
+      counterDamage,
+      returnFireDamage,
+      splashDamage: Math.round(splashDamage),
+      friendlyDamage: Math.round(friendlyDamage),
+      effect: stats.onHitEffect ? stats.onHitEffect.type : null,
+      effectChance: stats.onHitEffect ? hitChance * stats.onHitEffect.chance : 0,
+      armorModifier: armorModifier,
+      cover: this.getCover(target.position, gameState),
+      fortification: target.getFortification(),
+      heightAdvantage: this.getHeightAdvantage(attacker.position, target.position, gameState),
+      rearAttack: this.isRearAttack(attacker.position, target)
+    };
+  }
+
+  /**
+   * Chance to hit a hex - falls off linearly from the near to the far
+   * end of the weapon's range band
+   * 
+   * @param attacker Attacking unit
+   * @param coord Target hex
+   * @returns Hit chance between 0 and 1
+   */
+  public static getHitChance(attacker: Unit, coord: HexCoordinate): number {
+    const stats = attacker.getWeaponStats();
+    const range = attacker.getAttackRange();
+    const distance = HexUtils.distance(attacker.position, coord);
+    
+    const band = range.max - range.min;
+    const t = band > 0 ? Math.min(Math.max((distance - range.min) / band, 0), 1) : 0;
+    return stats.hitChanceNear + (stats.hitChanceFar - stats.hitChanceNear) * t;
+  }
+
+  /**
+   * Hexes a shot landing on a hex would damage (impact hex first)
+   * Single-target weapons only affect the impact hex
+   * 
+   * @param attacker Attacking unit
+   * @param impact Hex the shot lands on
+   * @param gameState Current game state
+   * @returns In-bounds hexes inside the blast
+   */
+  public static getBlastArea(attacker: Unit, impact: HexCoordinate, gameState: GameState): HexCoordinate[] {
+    return HexUtils.getHexesInRange(impact, attacker.getBlastRadius())
+      .filter(hex => gameState.getTileAt(hex) !== null)
+      .sort((a, b) => HexUtils.distance(impact, a) - HexUtils.distance(impact, b));
+  }
+
+  /**
+   * Living units of either side inside a blast (friendly fire included)
+   */
+  private static getUnitsInBlast(attacker: Unit, impact: HexCoordinate, gameState: GameState): Unit[] {
+    const blastKeys = new Set(this.getBlastArea(attacker, impact, gameState).map(hex => HexUtils.toKey(hex)));
+    return [...gameState.playerUnits, ...gameState.aiUnits]
+      .filter(unit => unit.isAlive() && blastKeys.has(HexUtils.toKey(unit.position)));
+  }
+
+  /**
+   * Average return fire a defender would send back from a hex (0 if it can't)
+   * The defender is only moved there for the calculation
+   */
+  private static getReturnFireFrom(defender: Unit, from: HexCoordinate, attacker: Unit, gameState: GameState): number {
+    const position = defender.position;
+    defender.position = from;
+    try {
+      return this.canReturnFire(defender, attacker, gameState)
+        ? this.getExpectedDamage(defender, attacker, gameState) * CONSTANTS.COUNTER_FIRE_DAMAGE_MULTIPLIER
+        : 0;
+    } finally {
+      defender.position = position;
+    }
+  }
+
+  /**
+   * Damage fraction dealt at a distance from the impact hex
+   */
+  private static getBlastMultiplier(attacker: Unit, distance: number): number {
+    const falloff = attacker.getWeaponStats().blastFalloff ?? 1;
+    return Math.max(0, 1 - falloff * distance);
+  }
+
+  /**
+   * Average damage per shot including misses and crits
+   */
+  private static getExpectedDamage(attacker: Unit, victim: Unit, gameState: GameState): number {
+    const coord = victim.position;
+    const stats = attacker.getWeaponStats();
+    const critBonus = CONSTANTS.CRIT_DAMAGE_MULTIPLIER - 1;
+    return this.getHitChance(attacker, coord) *
+      this.getDamageAt(attacker, coord, gameState) *
+      this.getVictimModifier(attacker, victim, gameState) *
+      (1 + stats.critChance * critBonus);
+  }
+
+  /**
+   * Chance a variance roll on the given damage reaches a health total
+   * Damage is uniform within ±variance and rounded to the nearest point
+   */
+  private static getChanceToDeal(health: number, damage: number, variance: number): number {
+    if (variance === 0) {
+      return Math.round(damage) >= health ? 1 : 0;
+    }
     
-    // Emit event for sound effect
-    EventBus.getInstance().emit('attackExecuted', {
+    const neededRoll = (health - 0.5) / damage;
+    const chance = (1 + variance - neededRoll) / (2 * variance);
+    return Math.min(Math.max(chance, 0), 1);
+  }
+
+  /**
+   * Check if a unit can bombard a hex instead of a specific unit
+   * Blast weapons can shell any hex in range, indirect weapons can fire
+   * blind into hexes nobody on their side can see, and any weapon can
+   * batter a destructible obstacle
+   * 
+   * @param attacker Attacking unit
+   * @param coord Hex being targeted
+   * @param gameState Current game state
+   * @returns True if the hex can be bombarded
+   */
+  public static canBombard(attacker: Unit, coord: HexCoordinate, gameState: GameState): boolean {
+    if (!attacker.isAlive() || !attacker.canAttack()) return false;
+    if (!this.canFireAt(attacker, coord, gameState)) return false;
+    
+    // Never aim straight at a friendly unit
+    const occupant = gameState.getTileAt(coord)?.occupiedBy;
+    if (occupant && occupant.owner === attacker.owner) return false;
+    
+    const blindShot = attacker.getFireMode() === 'indirect' && !this.isSpotted(coord, attacker.owner, gameState);
+    const siegeTarget = gameState.getTileAt(coord)?.obstacle?.isDestructible() ?? false;
+    return attacker.getBlastRadius() > 0 || blindShot || siegeTarget;
+  }
+
+  /**
+   * Bombard a hex - the shot resolves against whoever is there and in the
+   * blast around it, otherwise it is wasted
+   * 
+   * @param attacker Attacking unit
+   * @param coord Hex being targeted
+   * @param gameState Current game state
+   * @returns Attack result (no target if the impact hex was empty)
+   */
+  public static executeBombard(
+    attacker: Unit,
+    coord: HexCoordinate,
+    gameState: GameState
+  ): AttackResult {
+    if (!this.canBombard(attacker, coord, gameState)) {
+      Logger.warn('Invalid bombardment attempted');
+      return { success: false, damage: 0, targetDestroyed: false, hit: false, missed: false, critical: false, inflicted: null, splashHits: [] };
+    }
+    
+    return this.resolveReturnFire(attacker, this.resolveShot(attacker, coord, gameState), gameState);
+  }
+
+  /**
+   * Damage reduction for a unit standing on a hex - full cover inside a
+   * sheltering obstacle or terrain, partial cover next to an obstacle
+   * (best source counts)
+   * 
+   * @param coord Hex the unit stands on
+   * @param gameState Current game state
+   * @returns Fraction of damage absorbed (0 = no cover)
+   */
+  public static getCover(coord: HexCoordinate, gameState: GameState): number {
+    const tile = gameState.getTileAt(coord);
+    let cover = Math.max(tile?.obstacle?.coverValue ?? 0, tile?.getTerrainStats().cover ?? 0);
+    
+    HexUtils.neighbors(coord).forEach(neighbor => {
+      const neighborCover = gameState.getTileAt(neighbor)?.obstacle?.coverValue ?? 0;
+      cover = Math.max(cover, neighborCover * CONSTANTS.ADJACENT_COVER_FACTOR);
+    });
+    
+    return cover;
+  }
+
+  /**
+   * Elevation levels the firing hex stands above the target hex (0 if not higher)
+   */
+  public static getHeightAdvantage(from: HexCoordinate, to: HexCoordinate, gameState: GameState): number {
+    const fromElevation = gameState.getTileAt(from)?.elevation ?? 0;
+    const toElevation = gameState.getTileAt(to)?.elevation ?? 0;
+    return Math.max(0, fromElevation - toElevation);
+  }
+
+  /**
+   * Damage multiplier from the ground - downhill bonus, then the target's cover
+   */
+  private static getTerrainModifier(from: HexCoordinate, to: HexCoordinate, gameState: GameState): number {
+    const elevationBonus = 1 + this.getHeightAdvantage(from, to, gameState) * CONSTANTS.ELEVATION_DAMAGE_BONUS;
+    return elevationBonus * (1 - this.getCover(to, gameState));
+  }
+
+  /**
+   * Every damage multiplier that depends on who is hit - terrain, armor,
+   * how well the victim has dug in and whether it is hit from behind
+   */
+  private static getVictimModifier(attacker: Unit, victim: Unit, gameState: GameState): number {
+    const rearBonus = this.isRearAttack(attacker.position, victim) ? 1 + CONSTANTS.REAR_ATTACK_DAMAGE_BONUS : 1;
+    return this.getTerrainModifier(attacker.position, victim.position, gameState) *
+      this.getArmorModifier(attacker, victim) *
+      (1 - victim.getFortification()) *
+      rearBonus;
+  }
+
+  /**
+   * Damage multiplier of the attacker's damage type against the victim's armor
+   */
+  public static getArmorModifier(attacker: Unit, victim: Unit): number {
+    return getArmorMultiplier(attacker.getDamageType(), victim.getArmorClass());
+  }
+
+  /**
+   * Base damage a shot deals at a hex (before variance and crits)
+   * Indirect fire without a friendly spotter loses damage
+   */
+  private static getDamageAt(attacker: Unit, coord: HexCoordinate, gameState: GameState): number {
+    let damage = attacker.getDamage();
+    
+    if (attacker.getFireMode() === 'indirect' && !this.isSpotted(coord, attacker.owner, gameState)) {
+      damage = Math.round(damage * CONSTANTS.BLIND_FIRE_DAMAGE_MULTIPLIER);
+    }
+    
+    // Minimum 1
+    return Math.max(CONSTANTS.MIN_DAMAGE, damage);
+  }
+
+  /**
+   * Roll a shot at a hex with the battle RNG and apply the outcome
+   * Rolls: hit, then (on a hit) damage variance, critical and the weapon's
+   * status effect. One roll applies to the whole blast, damage reduced by
+   * falloff away from the impact. Return fire hits for reduced damage.
+   */
+  private static resolveShot(
+    attacker: Unit,
+    impact: HexCoordinate,
+    gameState: GameState,
+    reaction: ReactionType | null = null
+  ): AttackResult {
+    const stats = attacker.getWeaponStats();
+    const rng = gameState.rng;
+    const target = this.getEnemyAtHex(impact, attacker, gameState);
+    
+    // Mark attacker as having attacked and use up the shot
+    attacker.spendShot();
+    
+    const hit = rng.chance(this.getHitChance(attacker, impact));
+    let critical = false;
+    let damage = 0;
+    let rolledDamage = 0;
+    let inflicted: StatusEffectType | null = null;
+    const splashHits: BlastHit[] = [];
+    
+    if (hit) {
+      const varianceRoll = 1 - stats.damageVariance + rng.next() * 2 * stats.damageVariance;
+      critical = rng.chance(stats.critChance);
+      if (stats.onHitEffect && rng.chance(stats.onHitEffect.chance)) {
+        inflicted = stats.onHitEffect.type;
+      }
+      
+      rolledDamage = this.getDamageAt(attacker, impact, gameState) * varianceRoll *
+        (critical ? CONSTANTS.CRIT_DAMAGE_MULTIPLIER : 1) *
+        (reaction === 'returnFire' ? CONSTANTS.COUNTER_FIRE_DAMAGE_MULTIPLIER : 1);
+      
+      this.getUnitsInBlast(attacker, impact, gameState).forEach(unit => {
+        const falloff = this.getBlastMultiplier(attacker, HexUtils.distance(impact, unit.position));
+        const victimModifier = this.getVictimModifier(attacker, unit, gameState);
+        const unitDamage = Math.max(CONSTANTS.MIN_DAMAGE, Math.round(rolledDamage * falloff * victimModifier));
+        const healthBefore = unit.health;
+        unit.takeDamage(unitDamage);
+        
+        Logger.info(`${attacker.type} dealt ${unitDamage}${critical ? ' critical' : ''} damage to ${unit.type} (${healthBefore} → ${unit.health} HP)`);
+        
+        if (inflicted && unit.isAlive()) {
+          unit.addStatusEffect(inflicted, unit.owner === gameState.currentTurn);
+          Logger.info(`${unit.type} is ${inflicted}`);
+        }
+        
+        if (unit === target) {
+          damage = unitDamage;
+        } else {
+          splashHits.push({ unit, damage: unitDamage, destroyed: !unit.isAlive() });
+        }
+      });
+      
+      if (inflicted === 'burning') {
+        this.igniteObstacles(attacker, impact, gameState);
+      }
+    } else {
+      Logger.info(`${attacker.type} missed (${impact.q}, ${impact.r})`);
+    }
+    
+    // Emit event for sound effect and combat text
+    const event: AttackExecutedEvent = {
       attackerId: attacker.id,
-      targetId: target.id,
+      targetId: target ? target.id : null,
+      targetPosition: impact,
       damage: damage,
-      weaponType: attacker.type
-    });
+      hit: hit,
+      critical: critical,
+      inflicted: inflicted,
+      weaponType: attacker.type,
+      reaction: reaction,
+      splashHits: splashHits.map(splash => ({
+        unitId: splash.unit.id,
+        position: splash.unit.position,
+        damage: splash.damage
+      }))
+    };
+    EventBus.getInstance().emit('attackExecuted', event);
+    
+    // Clear away splash victims first so their wrecks don't stop a push
+    splashHits
+      .filter(splash => splash.destroyed)
+      .forEach(splash => this.handleUnitDestruction(splash.unit, attacker, gameState));
     
-    // Check if target destroyed
-    const targetDestroyed = !target.isAlive();
+    // Heavy hits shove the surviving target back a hex
+    const knockback = target && target.isAlive() && damage >= CONSTANTS.KNOCKBACK_DAMAGE_THRESHOLD
+      ? this.applyKnockback(attacker, target, gameState)
+      : undefined;
     
-    if (targetDestroyed) {
+    // Check if the target was destroyed - by the hit or slamming into something
+    const targetDestroyed = target ? !target.isAlive() : false;
+    if (target && targetDestroyed) {
       this.handleUnitDestruction(target, attacker, gameState);
     }
     
+    // Buildings and ruins in the blast take the same roll
+    if (hit) {
+      this.damageObstacles(attacker, impact, rolledDamage, gameState);
+    }
+    
     return {
       success: true,
       damage: damage,
       targetDestroyed: targetDestroyed,
+      hit: hit,
+      missed: !hit || !target,
+      critical: critical,
+      inflicted: inflicted,
+      splashHits: splashHits,
+      knockback: knockback,
       attacker: attacker,
-      target: target
+      target: target ?? undefined
+    };
+  }
+
+  /**
+   * Push a unit one hex directly away from the attacker
+   * A push into an impassable obstacle, the river, another unit or the dead zone beyond
+   * the shrink radius is blocked - the unit stays put and takes collision damage
+   * 
+   * @param attacker Unit whose hit caused the push
+   * @param target Unit being pushed (still alive)
+   * @param gameState Current game state
+   * @returns Where the unit ended up and any collision damage
+   */
+  private static applyKnockback(attacker: Unit, target: Unit, gameState: GameState): KnockbackEvent {
+    const from = target.position;
+    const destination = HexUtils.stepAway(attacker.position, from);
+    
+    let collisionDamage = 0;
+    if (this.isKnockbackBlocked(destination, gameState)) {
+      // A flat knock - armor, fortifications and cover don't soften it
+      collisionDamage = CONSTANTS.KNOCKBACK_COLLISION_DAMAGE;
+      target.takeDamage(collisionDamage);
+      Logger.info(`${target.type} slammed into (${destination.q}, ${destination.r}) for ${collisionDamage} damage`);
+    } else {
+      gameState.relocateUnit(target, destination);
+      target.fortifyLevel = 0; // Shoved out of its fortifications
+      gameState.updateVision();
+      Logger.info(`${target.type} knocked back to (${destination.q}, ${destination.r})`);
+    }
+    
+    const event: KnockbackEvent = {
+      unitId: target.id,
+      from: from,
+      to: target.position,
+      collisionDamage: collisionDamage
     };
+    EventBus.getInstance().emit('unitKnockedBack', event);
+    return event;
+  }
+
+  /**
+   * Check if a unit pushed onto a hex would be stopped short (see applyKnockback)
+   */
+  private static isKnockbackBlocked(destination: HexCoordinate, gameState: GameState): boolean {
+    const tile = gameState.getTileAt(destination);
+    return !tile || !tile.isInBounds ||
+      HexUtils.distance(destination, HexUtils.create(0, 0)) > gameState.shrinkRadius ||
+      tile.occupiedBy !== null ||
+      !tile.isPassable();
   }
 
   /**
@@ -206,6 +783,12 @@ export class CombatService {
       }
     }
     
+    // Free up the hex
+    const tile = gameState.getTileAt(destroyed.position);
+    if (tile && tile.occupiedBy === destroyed) {
+      tile.occupiedBy = null;
+    }
+    
     // Award XP if player got the kill
     if (attacker.owner === 'player' && destroyed.owner === 'ai') {
       gameState.enemiesDestroyedByPlayer++;
@@ -220,6 +803,72 @@ export class CombatService {
     }
   }
 
+  /**
+   * Apply a shot's damage to destructible obstacles in the blast
+   * Destroyed obstacles collapse into rubble (passable, no longer blocks sight)
+   * 
+   * @param attacker Unit that fired
+   * @param impact Hex the shot landed on
+   * @param rolledDamage Damage at the impact hex after variance and crit
+   * @param gameState Current game state
+   */
+  private static damageObstacles(
+    attacker: Unit,
+    impact: HexCoordinate,
+    rolledDamage: number,
+    gameState: GameState
+  ): void {
+    const eventBus = EventBus.getInstance();
+    let collapsed = false;
+    
+    this.getBlastArea(attacker, impact, gameState).forEach(hex => {
+      const tile = gameState.getTileAt(hex);
+      const obstacle = tile?.obstacle;
+      if (!tile || !obstacle || !obstacle.isDestructible()) return;
+      
+      const falloff = this.getBlastMultiplier(attacker, HexUtils.distance(impact, hex));
+      const armorModifier = getArmorMultiplier(attacker.getDamageType(), 'fortified');
+      const damage = Math.max(CONSTANTS.MIN_DAMAGE, Math.round(rolledDamage * falloff * armorModifier));
+      const destroyed = obstacle.takeDamage(damage);
+      
+      const damagedEvent: ObstacleDamagedEvent = {
+        position: hex,
+        type: obstacle.type,
+        damage: damage,
+        health: obstacle.health,
+        maxHealth: obstacle.maxHealth
+      };
+      eventBus.emit('obstacleDamaged', damagedEvent);
+      
+      if (destroyed) {
+        Logger.info(`${obstacle.type} at (${hex.q}, ${hex.r}) destroyed by ${attacker.type}!`);
+        tile.obstacle = new Obstacle('RUBBLE', gameState.rng);
+        gameState.markTerrainChanged();
+        collapsed = true;
+        
+        const destroyedEvent: ObstacleDestroyedEvent = { position: hex, type: obstacle.type };
+        eventBus.emit('obstacleDestroyed', destroyedEvent);
+      }
+    });
+    
+    // Collapsed walls may open new sight lines
+    if (collapsed) {
+      gameState.updateVision();
+    }
+  }
+
+  /**
+   * Set flammable obstacles (trees) in the blast on fire
+   */
+  private static igniteObstacles(attacker: Unit, impact: HexCoordinate, gameState: GameState): void {
+    this.getBlastArea(attacker, impact, gameState).forEach(hex => {
+      const obstacle = gameState.getTileAt(hex)?.obstacle;
+      if (obstacle && obstacle.ignite()) {
+        Logger.info(`${obstacle.type} at (${hex.q}, ${hex.r}) caught fire`);
+      }
+    });
+  }
+
   /**
    * Check if hex coordinate contains an enemy unit
    * Helper method for target selection
@@ -245,6 +894,88 @@ export class CombatService {
   }
 }
 
+/**
+ * Predicted outcome of an attack (see CombatService.forecast)
+ */
+export interface AttackForecast {
+  expectedDamage: number;
+  minDamage: number;
+  maxDamage: number;
+  hitChance: number; // 0-1
+  killChance: number; // 0-1
+  canKill: boolean;
+  counterDamage: number; // Damage the target could return next turn
+  returnFireDamage: number; // Expected immediate return fire (optional rule, 0 when off)
+  splashDamage: number; // Expected blast damage to other enemies
+  friendlyDamage: number; // Expected blast damage to the attacker's own side
+  effect: StatusEffectType | null; // Status effect the weapon's hits may inflict
+  effectChance: number; // Chance to inflict it
+  armorModifier: number; // Weapon-vs-armor damage multiplier
+  cover: number; // Share of damage the target's cover absorbs
+  fortification: number; // Share of damage the target's fortifications absorb
+  heightAdvantage: number; // Elevation levels the attacker stands above the target
+  rearAttack: boolean; // The attacker strikes the target from behind
+}
+
+/**
+ * Payload of the attackExecuted event
+ */
+export interface AttackExecutedEvent {
+  attackerId: string;
+  targetId: string | null; // null for a blind shot into an empty hex
+  targetPosition: HexCoordinate;
+  damage: number;
+  hit: boolean;
+  critical: boolean;
+  inflicted: StatusEffectType | null; // Status effect the hit applied
+  weaponType: WeaponType;
+  reaction: ReactionType | null; // Set for shots fired out of turn
+  splashHits: Array<{ unitId: string; position: HexCoordinate; damage: number }>;
+}
+
+/**
+ * Shots fired during the enemy's turn in response to its actions
+ */
+export type ReactionType = 'overwatch' | 'returnFire';
+
+/**
+ * Payload of the 'unitKnockedBack' event (from equals to when the push was blocked)
+ */
+export interface KnockbackEvent {
+  unitId: string;
+  from: HexCoordinate;
+  to: HexCoordinate;
+  collisionDamage: number;
+}
+
+/**
+ * Payload of the 'obstacleDamaged' event
+ */
+export interface ObstacleDamagedEvent {
+  position: HexCoordinate;
+  type: ObstacleType;
+  damage: number;
+  health: number;
+  maxHealth: number;
+}
+
+/**
+ * Payload of the 'obstacleDestroyed' event (the hex is rubble from now on)
+ */
+export interface ObstacleDestroyedEvent {
+  position: HexCoordinate;
+  type: ObstacleType;
+}
+
+/**
+ * Damage dealt to a unit caught in a blast
+ */
+export interface BlastHit {
+  unit: Unit;
+  damage: number;
+  destroyed: boolean;
+}
+
 /**
  * Result of an attack action
  */
@@ -252,6 +983,13 @@ export interface AttackResult {
   success: boolean;
   damage: number;
   targetDestroyed: boolean;
+  hit: boolean; // Shot connected with the target
+  missed: boolean; // Shot was fired but hit nothing
+  critical: boolean; // Hit was a critical (bonus damage)
+  inflicted: StatusEffectType | null; // Status effect applied to everyone hit
+  splashHits: BlastHit[]; // Other units caught in the blast (friendly fire included)
+  knockback?: KnockbackEvent; // Set when a heavy hit pushed the target
   attacker?: Unit;
   target?: Unit;
+  returnFire?: AttackResult; // The target's immediate reply (optional rule)
 }
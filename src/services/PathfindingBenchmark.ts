@@ -0,0 +1,109 @@
+import { GameState } from '../core/GameState';
+import { HexTile } from '../models/HexTile';
+import { Obstacle } from '../models/Obstacle';
+import { HexUtils } from '../utils/HexUtils';
+import { ObstacleType } from '../utils/Constants';
+import { Logger } from '../utils/Logger';
+import { RandomService } from './RandomService';
+import { PathfindingService } from './PathfindingService';
+
+/**
+ * Average milliseconds per query on a synthetic battlefield
+ */
+export interface PathfindingBenchmarkResult {
+  radius: number;
+  tiles: number;
+  distanceMapMs: number; // Fresh flood fill (first query after the terrain changes)
+  reachableMs: number; // Fresh movement range, as the AI and unit selection ask for it
+  pathMs: number; // A* path corner to corner, without a distance map
+  withinFrameBudget: boolean;
+}
+
+const FRAME_BUDGET_MS = 1000 / 60;
+const BENCHMARK_OBSTACLES: ObstacleType[] = ['ROCK_LARGE', 'ROCK_SMALL', 'TREE', 'RUIN'];
+
+/**
+ * PathfindingBenchmark - Console harness for pathfinding performance
+ * Times the flood fill behind movement ranges and planned moves, and the A*
+ * path search, on a battlefield larger than the real one, against a 60 FPS
+ * frame budget
+ * Usage (browser console): PathfindingBenchmark.run(30)
+ */
+export class PathfindingBenchmark {
+  /**
+   * @param radius Battlefield radius to test (the real battlefield is CONSTANTS.GRID_RADIUS)
+   * @param iterations Repetitions averaged per query
+   * @param seed Seed for obstacle placement
+   */
+  public static run(radius: number = 30, iterations: number = 50, seed: number = 1): PathfindingBenchmarkResult {
+    const gameState = this.createBattlefield(radius, seed);
+    const start = HexUtils.create(-radius, radius);
+    const goal = HexUtils.create(radius, -radius);
+
+    const distanceMapMs = this.time(iterations, () => {
+      gameState.markTerrainChanged();
+      PathfindingService.getDistanceMap(start, gameState);
+    });
+
+    const reachableMs = this.time(iterations, () => {
+      gameState.markTerrainChanged();
+      PathfindingService.getReachableHexes(start, 6, gameState);
+    });
+
+    const pathMs = this.time(iterations, () => {
+      PathfindingService.findPath(start, goal, gameState);
+    });
+
+    const result: PathfindingBenchmarkResult = {
+      radius,
+      tiles: gameState.battlefield.size,
+      distanceMapMs,
+      reachableMs,
+      pathMs,
+      withinFrameBudget: Math.max(distanceMapMs, reachableMs, pathMs) <= FRAME_BUDGET_MS
+    };
+
+    Logger.info(
+      `Pathfinding radius ${radius} (${result.tiles} hexes): ` +
+      `distance map ${distanceMapMs.toFixed(3)}ms, reachable ${reachableMs.toFixed(3)}ms, ` +
+      `path ${pathMs.toFixed(3)}ms - ` +
+      (result.withinFrameBudget ? 'within' : 'OVER') + ` the ${FRAME_BUDGET_MS.toFixed(1)}ms frame budget`
+    );
+
+    return result;
+  }
+
+  /**
+   * Open battlefield of the given radius with a scattering of obstacles
+   * (the outer ring is kept clear so the start and goal are always passable)
+   */
+  private static createBattlefield(radius: number, seed: number): GameState {
+    const rng = new RandomService(seed);
+    const gameState = new GameState();
+    gameState.battlefield = new Map();
+    gameState.shrinkRadius = radius;
+
+    HexUtils.getHexesInRange(HexUtils.create(0, 0), radius).forEach(coord => {
+      const tile = new HexTile(coord);
+      const onEdge = HexUtils.distance(coord, HexUtils.create(0, 0)) === radius;
+      if (!onEdge && rng.chance(0.2)) {
+        tile.obstacle = new Obstacle(rng.pick(BENCHMARK_OBSTACLES), rng);
+      }
+      gameState.battlefield.set(HexUtils.toKey(coord), tile);
+    });
+
+    gameState.markTerrainChanged();
+    return gameState;
+  }
+
+  /**
+   * Average duration of a query in milliseconds
+   */
+  private static time(iterations: number, query: () => void): number {
+    const started = performance.now();
+    for (let i = 0; i < iterations; i++) {
+      query();
+    }
+    return (performance.now() - started) / iterations;
+  }
+}
@@ -0,0 +1,119 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import fc from 'fast-check';
+import { PathfindingService } from './PathfindingService';
+import { RandomService } from './RandomService';
+import { GameState } from '../core/GameState';
+import { HexCoordinate } from '../models/HexCoordinate';
+import { Obstacle } from '../models/Obstacle';
+import { Unit } from '../models/Unit';
+import { HexUtils } from '../utils/HexUtils';
+import { CONSTANTS, WeaponType } from '../utils/Constants';
+
+/**
+ * Movement points a unit spends walking a path hex by hex
+ * Without a mover the first step is taken facing the right way for free
+ */
+function getPathCost(start: HexCoordinate, path: HexCoordinate[], gameState: GameState, mover: Unit | null): number {
+  let facing = mover ? mover.facing : HexUtils.facingTowards(start, path[0]);
+  let cost = mover && gameState.rules.zoneOfControl && PathfindingService.isInZoneOfControl(start, mover.owner, gameState)
+    ? CONSTANTS.ZOC_EXIT_COST
+    : 0;
+
+  let from = start;
+  path.forEach(hex => {
+    const direction = HexUtils.facingTowards(from, hex);
+    cost += HexUtils.rotationSteps(facing, direction) * CONSTANTS.ROTATION_COST + gameState.getTileAt(hex)!.getMovementCost();
+    facing = direction;
+    from = hex;
+  });
+  return cost;
+}
+
+const ARMIES: WeaponType[][] = [
+  ['catapult', 'ballista'],
+  ['trebuchet', 'catapult', 'ballista'],
+  ['ballista', 'ballista', 'catapult', 'catapult']
+];
+
+describe('PathfindingService reachability and planned moves', () => {
+  beforeAll(() => {
+    // Battle setup logs every step
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'debug').mockImplementation(() => {});
+  });
+
+  it('agree with each other and with path search on every hex for random battlefields, budgets and movers', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 1, max: 1_000_000 }), // Battlefield seed
+        fc.constantFrom(...ARMIES),
+        fc.boolean(), // Zone of control rule
+        fc.nat(), // Which unit moves
+        fc.integer({ min: 0, max: 5 }), // Its facing
+        fc.constantFrom(0, 0.5, 1, 2, 3.5, 4, 6, 9, Infinity), // Movement budget
+        fc.boolean(), // Pass the mover (its facing and side) or plan for no unit
+        (seed, army, zoneOfControl, moverIndex, facing, budget, withMover) => {
+          const gameState = new GameState();
+          gameState.initialize(army, seed, { counterFire: false, zoneOfControl });
+
+          const units: Unit[] = [...gameState.playerUnits, ...gameState.aiUnits];
+          const unit = units[moverIndex % units.length];
+          unit.facing = facing;
+          const mover = withMover ? unit : null;
+
+          const reachable = new Set(
+            PathfindingService.getReachableHexes(unit.position, budget, gameState, mover).map(hex => HexUtils.toKey(hex))
+          );
+
+          gameState.getAllTiles().forEach(tile => {
+            const plan = PathfindingService.planMove(unit.position, tile.coordinate, budget, gameState, mover);
+            const key = HexUtils.toKey(tile.coordinate);
+
+            // The A* path search finds a path exactly as cheap as the unlimited plan
+            const path = PathfindingService.findPath(unit.position, tile.coordinate, gameState, mover);
+            const unlimited = PathfindingService.planMove(unit.position, tile.coordinate, Infinity, gameState, mover);
+            if (unlimited === null) {
+              expect(path, `${key} has a path but no plan`).toEqual([]);
+            } else {
+              expect(getPathCost(unit.position, path, gameState, mover)).toBeCloseTo(unlimited.cost, 9);
+            }
+
+            if (plan === null) {
+              expect(reachable.has(key), `${key} reachable without a plan`).toBe(false);
+              return;
+            }
+
+            const stepTotal = plan.stepCosts.reduce((sum, cost) => sum + cost, 0);
+            expect(reachable.has(key), `${key} planned but not reachable`).toBe(true);
+            expect(plan.cost).toBeLessThanOrEqual(budget);
+            expect(plan.cost).toBeCloseTo(stepTotal, 9);
+            expect(plan.path).toHaveLength(plan.stepCosts.length);
+            expect(HexUtils.equals(plan.path[plan.path.length - 1], tile.coordinate)).toBe(true);
+          });
+        }
+      ),
+      { numRuns: 60 }
+    );
+  });
+
+  it('plans no move to a hex walled off by impassable obstacles, even without a budget', () => {
+    const gameState = new GameState();
+    gameState.initialize(['catapult'], 1, { counterFire: false, zoneOfControl: false });
+
+    // Ring the center with rocks, leaving the center itself open
+    const center = HexUtils.create(0, 0);
+    const rng = new RandomService(1);
+    gameState.getTileAt(center)!.obstacle = null;
+    HexUtils.neighbors(center).forEach(hex => {
+      gameState.getTileAt(hex)!.obstacle = new Obstacle('ROCK_LARGE', rng);
+    });
+    gameState.markTerrainChanged();
+
+    const unit = gameState.playerUnits[0];
+    const reachable = PathfindingService.getReachableHexes(unit.position, Infinity, gameState);
+
+    expect(reachable.some(hex => HexUtils.equals(hex, center))).toBe(false);
+    expect(PathfindingService.planMove(unit.position, center, Infinity, gameState)).toBeNull();
+    expect(PathfindingService.findPath(unit.position, center, gameState)).toEqual([]);
+  });
+});
@@ -1,282 +1,450 @@
 import { HexCoordinate } from '../models/HexCoordinate';
+import { Unit } from '../models/Unit';
 import { GameState } from '../core/GameState';
 import { HexUtils } from '../utils/HexUtils';
-import { CONSTANTS } from '../utils/Constants';
+import { CONSTANTS, PlayerType } from '../utils/Constants';
+import { MinHeap } from '../utils/MinHeap';
 
 /**
- * PathfindingService - A* Pathfinding for Hex Grid
+ * Movement costs from one hex to every hex it can reach
+ * Shared by reachability queries and path reconstruction
+ * Searched over states (state id = node id * 6 + facing), since turning to
+ * face the next step costs movement too
+ */
+export interface DistanceMap {
+  readonly origin: HexCoordinate;
+  readonly cost: Float64Array; // Movement points to reach each state (Infinity = unreachable)
+  readonly cameFrom: Int32Array; // Previous state on the cheapest path (-1 = none)
+  readonly settled: readonly number[]; // Reached states, cheapest first
+}
+
+/**
+ * Cheapest route to a destination within a movement budget
+ */
+export interface PlannedMove {
+  path: HexCoordinate[]; // Excluding start, including destination
+  stepCosts: number[]; // Movement points spent turning towards and entering each hex of the path
+  cost: number; // Movement points the whole path uses
+  facing: number; // Direction the unit faces on arrival (its last step)
+}
+
+/**
+ * Integer-indexed view of the battlefield, rebuilt whenever the terrain changes
+ * Node id = (q + radius) * width + (r + radius)
+ */
+interface PathGrid {
+  revision: number;
+  radius: number;
+  width: number;
+  coords: Array<HexCoordinate | null>; // Node id -> coordinate (null = no tile)
+  stepCost: Float64Array; // Cost to enter each node (Infinity = blocked)
+  minStepCost: number; // Cheapest node to enter (A* heuristic)
+  distanceMaps: Map<string, DistanceMap>; // Cached maps by origin state (and zone of control)
+}
+
+/**
+ * Enemy presence for a moving side under the zone of control rule
+ */
+interface ControlMap {
+  key: string; // Identifies the enemy positions (distance map cache key)
+  nodes: Uint8Array; // ZONE_* value per node
+}
+
+// Zone of control node states (0 = free)
+const ZONE_CONTROLLED = 1; // Next to an enemy - entering ends the move
+const ZONE_ENEMY = 2; // Held by an enemy - can't be passed through
+
+// Same order as HexUtils.neighbors so ties resolve identically everywhere
+// (the index of a direction is the facing of a unit stepping that way)
+const DIRECTIONS: [number, number][] = [
+  [+1, -1], [+1, 0], [0, +1], [-1, +1], [-1, 0], [0, -1]
+];
+const FACINGS = DIRECTIONS.length;
+
+// Distance maps kept per grid - enough for every unit plus hover previews
+const MAX_CACHED_DISTANCE_MAPS = 32;
+
+/**
+ * PathfindingService - Dijkstra and A* Pathfinding for Hex Grid
  * Implements movement range calculation and shortest path finding
  * Based on Red Blob Games hex algorithms
  */
 export class PathfindingService {
+  private static grids = new WeakMap<GameState, PathGrid>();
+
   /**
    * Calculate all hexes reachable within movement range
-   * Uses breadth-first flood fill with movement cost tracking
-   * Respects obstacles that block or slow movement
-   * 
+   * Respects obstacles that block or slow movement, turning costs, and
+   * enemy zones of control when that rule is on
+   *
    * @param start Starting hex coordinate
    * @param movementRange Maximum movement points available
    * @param gameState Current game state for obstacle checking
-   * @returns Array of reachable hex coordinates
+   * @param mover Unit being moved (null ignores its facing and zones of control)
+   * @returns Array of reachable hex coordinates, cheapest first
    */
   public static getReachableHexes(
     start: HexCoordinate,
     movementRange: number,
-    gameState: GameState
+    gameState: GameState,
+    mover: Unit | null = null
   ): HexCoordinate[] {
+    const grid = this.getGrid(gameState);
+    const map = this.getDistanceMap(start, gameState, mover);
+    const occupied = this.getOccupiedNodes(grid, gameState);
+    const seen = new Uint8Array(grid.width * grid.width);
     const reachable: HexCoordinate[] = [];
-    const visited = new Map<string, number>(); // key -> cost to reach
-    
-    // BFS flood fill tracking actual movement cost
-    const queue: Array<{coord: HexCoordinate, cost: number}> = [{coord: start, cost: 0}];
-    visited.set(HexUtils.toKey(start), 0);
-    
-    while (queue.length > 0) {
-      const {coord, cost} = queue.shift()!;
-      
-      // Add to reachable if not the starting position
-      if (cost > 0) {
-        // Can only stop on unoccupied hexes
-        if (!this.isOccupiedByUnit(coord, gameState) && this.isInPlayableArea(coord, gameState)) {
-          reachable.push(coord);
-        }
-      }
-      
-      // Explore neighbors if we have movement points left
-      if (cost < movementRange) {
-        const neighbors = HexUtils.neighbors(coord);
-        
-        for (const neighbor of neighbors) {
-          // Must be in bounds and playable area
-          if (!HexUtils.inBounds(neighbor, CONSTANTS.GRID_RADIUS)) continue;
-          if (!this.isInPlayableArea(neighbor, gameState)) continue;
-          
-          // Calculate movement cost (1 + obstacle penalty)
-          const moveCost = this.getMovementCost(neighbor, gameState);
-          
-          // Skip impassable tiles (Infinity cost = blocked by obstacle)
-          if (moveCost === Infinity) continue;
-          
-          // Each hex costs 1 movement point + obstacle penalty
-          const newCost = cost + 1 + moveCost;
-          
-          // Only visit if within range and cheaper than before
-          const neighborKey = HexUtils.toKey(neighbor);
-          const previousCost = visited.get(neighborKey) ?? Infinity;
-          
-          if (newCost <= movementRange && newCost < previousCost) {
-            visited.set(neighborKey, newCost);
-            queue.push({coord: neighbor, cost: newCost});
-          }
-        }
+
+    for (const state of map.settled) {
+      const cost = map.cost[state];
+      if (cost > movementRange) break;
+
+      // Cheapest facing first - later arrivals at the same hex add nothing
+      const node = Math.floor(state / FACINGS);
+      if (seen[node]) continue;
+      seen[node] = 1;
+
+      // Can only stop on unoccupied hexes (the start is never a destination)
+      if (cost > 0 && !occupied.has(node)) {
+        reachable.push(grid.coords[node]!);
       }
     }
-    
+
     return reachable;
   }
 
   /**
-   * Find shortest path between two hexes using A* algorithm
-   * 
+   * Plan a move: the cheapest path to a hex and exactly what it costs
+   * Reads the same distance map as getReachableHexes, so a hex is reachable
+   * with a budget if and only if a plan within that budget exists
+   *
+   * @param start Starting hex coordinate
+   * @param goal Destination hex coordinate
+   * @param movementBudget Movement points available (Infinity for no limit)
+   * @param gameState Current game state for obstacle checking
+   * @param mover Unit being moved (null ignores its facing and zones of control)
+   * @returns The planned move, or null if the goal can't be reached within the budget
+   */
+  public static planMove(
+    start: HexCoordinate,
+    goal: HexCoordinate,
+    movementBudget: number,
+    gameState: GameState,
+    mover: Unit | null = null
+  ): PlannedMove | null {
+    const grid = this.getGrid(gameState);
+    const goalNode = this.toNode(grid, goal);
+
+    // Goal must be on the battlefield, away from the start and free to stop on
+    if (goalNode < 0 || HexUtils.equals(start, goal) || this.getOccupiedNodes(grid, gameState).has(goalNode)) {
+      return null;
+    }
+
+    // Arrive facing whichever way is cheapest (lowest facing on ties)
+    const map = this.getDistanceMap(start, gameState, mover);
+    let goalState = goalNode * FACINGS;
+    for (let facing = 1; facing < FACINGS; facing++) {
+      if (map.cost[goalNode * FACINGS + facing] < map.cost[goalState]) {
+        goalState = goalNode * FACINGS + facing;
+      }
+    }
+
+    // Unreachable hexes cost Infinity, which even an unlimited budget can't afford
+    const cost = map.cost[goalState];
+    if (cost === Infinity || cost > movementBudget) {
+      return null;
+    }
+
+    return this.tracePath(grid, map, goalState);
+  }
+
+  /**
+   * Find the cheapest path between two hexes, ignoring movement budgets
+   * A* search straight for the goal rather than a full distance map, guided
+   * by the hex distance left times the cheapest step on the battlefield
+   *
    * @param start Starting hex coordinate
    * @param goal Target hex coordinate
    * @param gameState Current game state for obstacle checking
+   * @param mover Unit being moved (null ignores its facing and zones of control)
    * @returns Array of hex coordinates representing path (excluding start, including goal)
    */
   public static findPath(
     start: HexCoordinate,
     goal: HexCoordinate,
-    gameState: GameState
+    gameState: GameState,
+    mover: Unit | null = null
   ): HexCoordinate[] {
-    // Check if goal is valid
-    if (this.isOccupiedByUnit(goal, gameState) || !this.isInPlayableArea(goal, gameState)) {
+    const grid = this.getGrid(gameState);
+    const goalNode = this.toNode(grid, goal);
+
+    // Same destinations as planMove: on the battlefield, away from the start and free to stop on
+    if (goalNode < 0 || HexUtils.equals(start, goal) || this.getOccupiedNodes(grid, gameState).has(goalNode)) {
       return [];
     }
-    
-    // Check if goal has impassable obstacle
-    const goalTile = gameState.getTileAt(goal);
-    if (goalTile?.obstacle?.movementCost === Infinity) {
-      return [];
+
+    const control = mover && gameState.rules.zoneOfControl ? this.getControlMap(grid, mover.owner, gameState) : null;
+    const { map, goalState } = this.search(grid, start, mover, control, goalNode);
+    return goalState < 0 ? [] : this.tracePath(grid, map, goalState).path;
+  }
+
+  /**
+   * Movement costs from a hex to the rest of the battlefield
+   * Dijkstra flood fill over integer state ids, cached until the terrain changes
+   * Each step first turns the unit to face it, at ROTATION_COST per 60°
+   * Units can be passed through but not stopped on - except under the zone of
+   * control rule, where enemies block the way, entering a hex next to one
+   * ends the move and leaving one costs ZOC_EXIT_COST extra
+   *
+   * @param start Hex the unit starts from
+   * @param gameState Current game state for obstacle checking
+   * @param mover Unit being moved (null starts facing any way for free and ignores zones of control)
+   * @returns Shared distance map (do not modify)
+   */
+  public static getDistanceMap(
+    start: HexCoordinate,
+    gameState: GameState,
+    mover: Unit | null = null
+  ): DistanceMap {
+    const grid = this.getGrid(gameState);
+    const control = mover && gameState.rules.zoneOfControl ? this.getControlMap(grid, mover.owner, gameState) : null;
+    const originKey = `${this.toNode(grid, start)}:${mover ? mover.facing : '*'}`;
+    const cacheKey = control ? `${originKey}|${control.key}` : originKey;
+
+    const cached = grid.distanceMaps.get(cacheKey);
+    if (cached) return cached;
+
+    const { map } = this.search(grid, start, mover, control);
+
+    if (grid.distanceMaps.size >= MAX_CACHED_DISTANCE_MAPS) {
+      const oldest = grid.distanceMaps.keys().next().value!;
+      grid.distanceMaps.delete(oldest);
     }
-    
-    // A* data structures
-    const openSet = new Set<string>([HexUtils.toKey(start)]);
-    const cameFrom = new Map<string, HexCoordinate>();
-    const gScore = new Map<string, number>();
-    const fScore = new Map<string, number>();
-    
-    gScore.set(HexUtils.toKey(start), 0);
-    fScore.set(HexUtils.toKey(start), HexUtils.distance(start, goal));
-    
-    while (openSet.size > 0) {
-      // Get hex with lowest fScore
-      let current: HexCoordinate | null = null;
-      let lowestF = Infinity;
-      
-      openSet.forEach(key => {
-        const f = fScore.get(key) ?? Infinity;
-        if (f < lowestF) {
-          lowestF = f;
-          current = HexUtils.fromKey(key);
-        }
-      });
-      
-      if (!current) break;
-      
-      const currentKey = HexUtils.toKey(current);
-      
-      // Goal reached
-      if (HexUtils.equals(current, goal)) {
-        return this.reconstructPath(cameFrom, current);
+    grid.distanceMaps.set(cacheKey, map);
+
+    return map;
+  }
+
+  /**
+   * Search the battlefield's states from a hex - Dijkstra over all of them, or
+   * A* that stops at the first state on the goal node when one is given
+   * The A* heuristic (hexes left x cheapest step) never overestimates, as
+   * turning and zone of control only ever add to a step's cost
+   *
+   * @returns The costs found so far, and the goal state reached (-1 = none or no goal)
+   */
+  private static search(
+    grid: PathGrid,
+    start: HexCoordinate,
+    mover: Unit | null,
+    control: ControlMap | null,
+    goalNode: number = -1
+  ): { map: DistanceMap; goalState: number } {
+    const origin = this.toNode(grid, start);
+    const startFacings = mover ? [mover.facing] : DIRECTIONS.map((_, facing) => facing);
+    const stateCount = grid.width * grid.width * FACINGS;
+    const cost = new Float64Array(stateCount).fill(Infinity);
+    const cameFrom = new Int32Array(stateCount).fill(-1);
+    const done = new Uint8Array(stateCount);
+    const settled: number[] = [];
+    const map: DistanceMap = { origin: start, cost, cameFrom, settled };
+
+    // Lower bound on the cost still to pay from a node (0 for a full flood fill)
+    const goalQ = Math.floor(goalNode / grid.width) - grid.radius;
+    const goalR = (goalNode % grid.width) - grid.radius;
+    const estimate = (q: number, r: number) => goalNode < 0
+      ? 0
+      : (Math.abs(q - goalQ) + Math.abs(r - goalR) + Math.abs(q + r - goalQ - goalR)) / 2 * grid.minStepCost;
+
+    if (origin < 0) return { map, goalState: -1 };
+
+    const heap = new MinHeap();
+    startFacings.forEach(facing => {
+      cost[origin * FACINGS + facing] = 0;
+      heap.push(origin * FACINGS + facing, 0);
+    });
+
+    while (heap.size > 0) {
+      const state = heap.pop()!;
+      if (done[state]) continue; // Stale entry - already settled more cheaply
+      done[state] = 1;
+      settled.push(state);
+
+      const node = Math.floor(state / FACINGS);
+      const facing = state % FACINGS;
+      if (node === goalNode) return { map, goalState: state };
+
+      // Entering an enemy's zone of control ends the move, leaving one costs extra
+      let exitCost = 0;
+      if (control && control.nodes[node] === ZONE_CONTROLLED) {
+        if (node !== origin) continue;
+        exitCost = CONSTANTS.ZOC_EXIT_COST;
       }
-      
-      openSet.delete(currentKey);
-      
-      // Explore neighbors
-      const neighbors = this.getValidNeighbors(current, gameState);
-      neighbors.forEach(neighbor => {
-        const neighborKey = HexUtils.toKey(neighbor);
-        
-        // Calculate actual movement cost (1 + obstacle penalty)
-        const moveCost = this.getMovementCost(neighbor, gameState);
-        const tentativeGScore = (gScore.get(currentKey) ?? Infinity) + 1 + moveCost;
-        
-        if (tentativeGScore < (gScore.get(neighborKey) ?? Infinity)) {
-          cameFrom.set(neighborKey, current!);
-          gScore.set(neighborKey, tentativeGScore);
-          fScore.set(neighborKey, tentativeGScore + HexUtils.distance(neighbor, goal));
-          
-          if (!openSet.has(neighborKey)) {
-            openSet.add(neighborKey);
-          }
+
+      const q = Math.floor(node / grid.width) - grid.radius;
+      const r = (node % grid.width) - grid.radius;
+
+      for (let direction = 0; direction < FACINGS; direction++) {
+        const [dq, dr] = DIRECTIONS[direction];
+        const nq = q + dq;
+        const nr = r + dr;
+        if (Math.abs(nq) > grid.radius || Math.abs(nr) > grid.radius || Math.abs(nq + nr) > grid.radius) {
+          continue;
         }
-      });
+
+        const next = node + dq * grid.width + dr;
+        if (control && control.nodes[next] === ZONE_ENEMY) continue;
+
+        const turnCost = HexUtils.rotationSteps(facing, direction) * CONSTANTS.ROTATION_COST;
+        const nextState = next * FACINGS + direction;
+        const newCost = cost[state] + turnCost + grid.stepCost[next] + exitCost;
+        if (newCost < cost[nextState]) {
+          cost[nextState] = newCost;
+          cameFrom[nextState] = state;
+          heap.push(nextState, newCost + estimate(nq, nr));
+        }
+      }
+    }
+
+    return { map, goalState: -1 };
+  }
+
+  /**
+   * Walk a search's cheapest path back from a state to the start
+   */
+  private static tracePath(grid: PathGrid, map: DistanceMap, goalState: number): PlannedMove {
+    const path: HexCoordinate[] = [];
+    const stepCosts: number[] = [];
+    for (let state = goalState; map.cameFrom[state] !== -1; state = map.cameFrom[state]) {
+      path.push(grid.coords[Math.floor(state / FACINGS)]!);
+      stepCosts.push(map.cost[state] - map.cost[map.cameFrom[state]]);
     }
-    
-    // No path found
-    return [];
+
+    return {
+      path: path.reverse(),
+      stepCosts: stepCosts.reverse(),
+      cost: map.cost[goalState],
+      facing: goalState % FACINGS
+    };
   }
 
   /**
-   * Get all valid neighboring hexes (in bounds, not blocked by obstacles)
-   * 
-   * @param coord Current hex coordinate
-   * @param gameState Current game state
-   * @returns Array of valid neighbor coordinates
+   * Get the integer grid for the current terrain, rebuilding it if the
+   * battlefield, its obstacles or the playable area changed
    */
-  private static getValidNeighbors(coord: HexCoordinate, gameState: GameState): HexCoordinate[] {
-    return HexUtils.neighbors(coord).filter(neighbor => {
-      // Must be in bounds
-      if (!HexUtils.inBounds(neighbor, CONSTANTS.GRID_RADIUS)) return false;
-      
-      // Must be in playable area (not in shrink zone)
-      if (!this.isInPlayableArea(neighbor, gameState)) return false;
-      
-      // Cannot path through impassable obstacles (Infinity cost)
-      const moveCost = this.getMovementCost(neighbor, gameState);
-      if (moveCost === Infinity) return false;
-      
-      // Can traverse through occupied hexes for pathfinding
-      // (but can't stop on them - checked in getReachableHexes and goal validation)
-      return true;
+  private static getGrid(gameState: GameState): PathGrid {
+    const revision = gameState.getTerrainRevision();
+    const existing = this.grids.get(gameState);
+    if (existing && existing.revision === revision) return existing;
+
+    const center = HexUtils.create(0, 0);
+    let radius = 0;
+    gameState.battlefield.forEach(tile => {
+      radius = Math.max(radius, HexUtils.distance(tile.coordinate, center));
+    });
+
+    const width = radius * 2 + 1;
+    const coords: Array<HexCoordinate | null> = new Array(width * width).fill(null);
+    const stepCost = new Float64Array(width * width).fill(Infinity);
+    const grid: PathGrid = { revision, radius, width, coords, stepCost, minStepCost: Infinity, distanceMaps: new Map() };
+
+    gameState.battlefield.forEach(tile => {
+      const node = this.toNode(grid, tile.coordinate);
+      coords[node] = tile.coordinate;
+
+      // Each hex costs 1 movement point adjusted by terrain and obstacles (Infinity = impassable)
+      // Hexes in the shrink zone can't be entered at all
+      if (HexUtils.distance(tile.coordinate, center) <= gameState.shrinkRadius) {
+        stepCost[node] = tile.getMovementCost();
+        grid.minStepCost = Math.min(grid.minStepCost, stepCost[node]);
+      }
     });
+
+    this.grids.set(gameState, grid);
+    return grid;
   }
 
   /**
-   * Get movement cost for a hex (includes obstacle costs)
-   * 
-   * @param coord Hex coordinate
-   * @param gameState Current game state
-   * @returns Movement cost (0 = normal, 0.5 = difficult, Infinity = impassable)
+   * Node id of a coordinate, or -1 if it lies outside the grid
    */
-  private static getMovementCost(coord: HexCoordinate, gameState: GameState): number {
-    const tile = gameState.getTileAt(coord);
-    return tile?.obstacle?.movementCost ?? 0;
+  private static toNode(grid: PathGrid, coord: HexCoordinate): number {
+    if (!HexUtils.inBounds(coord, grid.radius)) return -1;
+    return (coord.q + grid.radius) * grid.width + (coord.r + grid.radius);
   }
 
   /**
-   * Check if hex is occupied by a unit
-   * 
-   * @param coord Hex coordinate to check
+   * Hexes next to any of the given units - the zone of control they exert
+   *
+   * @param units Units exerting control (dead units are skipped)
    * @param gameState Current game state
-   * @returns True if hex is occupied by a unit
+   * @returns Controlled hexes on the battlefield, excluding hexes held by the units
    */
-  private static isOccupiedByUnit(coord: HexCoordinate, gameState: GameState): boolean {
-    const key = HexUtils.toKey(coord);
-    
-    // Check player units
-    const playerOccupied = gameState.playerUnits.some(
-      unit => HexUtils.toKey(unit.position) === key
-    );
-    
-    // Check AI units
-    const aiOccupied = gameState.aiUnits.some(
-      unit => HexUtils.toKey(unit.position) === key
-    );
-    
-    return playerOccupied || aiOccupied;
+  public static getZoneOfControl(units: Unit[], gameState: GameState): HexCoordinate[] {
+    const living = units.filter(unit => unit.isAlive());
+    const zone = new Map<string, HexCoordinate>();
+
+    living.forEach(unit => {
+      HexUtils.neighbors(unit.position)
+        .filter(hex => gameState.getTileAt(hex) && !living.some(other => HexUtils.equals(other.position, hex)))
+        .forEach(hex => zone.set(HexUtils.toKey(hex), hex));
+    });
+
+    return Array.from(zone.values());
   }
 
   /**
-   * Check if hex is in playable area (not in shrink zone)
-   * 
-   * @param coord Hex coordinate to check
-   * @param gameState Current game state
-   * @returns True if hex is in playable area
+   * Check a hex lies in an enemy zone of control for a side
    */
-  private static isInPlayableArea(coord: HexCoordinate, gameState: GameState): boolean {
-    const center = HexUtils.create(0, 0);
-    const distanceFromCenter = HexUtils.distance(coord, center);
-    return distanceFromCenter <= gameState.shrinkRadius;
+  public static isInZoneOfControl(coord: HexCoordinate, owner: PlayerType, gameState: GameState): boolean {
+    const enemies = owner === 'player' ? gameState.aiUnits : gameState.playerUnits;
+    return enemies.some(enemy => enemy.isAlive() && HexUtils.distance(enemy.position, coord) === 1);
   }
 
   /**
-   * Reconstruct path from A* cameFrom map
-   * 
-   * @param cameFrom Map of hex -> previous hex in path
-   * @param current Goal hex coordinate
-   * @returns Array of hex coordinates from start to goal (excluding start)
+   * Mark the hexes held and controlled by a side's living enemies
    */
-  private static reconstructPath(
-    cameFrom: Map<string, HexCoordinate>,
-    current: HexCoordinate
-  ): HexCoordinate[] {
-    const path: HexCoordinate[] = [current];
-    let currentKey = HexUtils.toKey(current);
-    
-    while (cameFrom.has(currentKey)) {
-      current = cameFrom.get(currentKey)!;
-      currentKey = HexUtils.toKey(current);
-      path.unshift(current);
-    }
-    
-    // Remove start position (first element)
-    path.shift();
-    
-    return path;
+  private static getControlMap(grid: PathGrid, owner: PlayerType, gameState: GameState): ControlMap {
+    const enemies = (owner === 'player' ? gameState.aiUnits : gameState.playerUnits)
+      .filter(enemy => enemy.isAlive());
+    const nodes = new Uint8Array(grid.width * grid.width);
+
+    enemies.forEach(enemy => {
+      HexUtils.neighbors(enemy.position).forEach(hex => {
+        const node = this.toNode(grid, hex);
+        if (node >= 0) nodes[node] = ZONE_CONTROLLED;
+      });
+    });
+
+    const enemyNodes = enemies.map(enemy => this.toNode(grid, enemy.position));
+    enemyNodes.forEach(node => {
+      if (node >= 0) nodes[node] = ZONE_ENEMY;
+    });
+
+    return { key: `${owner}:${enemyNodes.join(',')}`, nodes };
   }
 
   /**
-   * Check if a move from one hex to another is valid
-   * 
-   * @param from Starting hex
+   * Node ids of every hex holding a unit
+   */
+  private static getOccupiedNodes(grid: PathGrid, gameState: GameState): Set<number> {
+    const occupied = new Set<number>();
+    [...gameState.playerUnits, ...gameState.aiUnits].forEach(unit => {
+      occupied.add(this.toNode(grid, unit.position));
+    });
+    return occupied;
+  }
+
+  /**
+   * Check if a unit can move to a hex this turn
+   * Same rules as its move command: facing, zones of control and the
+   * movement it has left
+   *
+   * @param unit Unit being moved
    * @param to Destination hex
-   * @param movementRange Unit's movement range
    * @param gameState Current game state
-   * @returns True if move is valid
+   * @returns True if a planned move to the hex fits the unit's remaining movement
    */
-  public static isValidMove(
-    from: HexCoordinate,
-    to: HexCoordinate,
-    movementRange: number,
-    gameState: GameState
-  ): boolean {
-    // Check if destination is within range
-    const distance = HexUtils.distance(from, to);
-    if (distance > movementRange) return false;
-    
-    // Check if destination is reachable
-    const reachableHexes = this.getReachableHexes(from, movementRange, gameState);
-    return reachableHexes.some(hex => HexUtils.equals(hex, to));
+  public static isValidMove(unit: Unit, to: HexCoordinate, gameState: GameState): boolean {
+    return this.planMove(unit.position, to, unit.getRemainingMovement(), gameState, unit) !== null;
   }
 }
@@ -0,0 +1,101 @@
+/**
+ * RandomService - Seedable Pseudo-Random Number Generator
+ * Every random decision in a battle must go through this service so that
+ * the same seed always reproduces the same battle
+ * Uses the mulberry32 algorithm (32-bit state, fast, good distribution)
+ */
+export class RandomService {
+  private seed: number;
+  private state: number;
+
+  constructor(seed: number = RandomService.generateSeed()) {
+    this.seed = seed >>> 0;
+    this.state = this.seed;
+  }
+
+  /**
+   * Create a fresh seed for a new battle
+   * Math.random is only used here - never for gameplay rolls
+   */
+  public static generateSeed(): number {
+    return Math.floor(Math.random() * 0xffffffff) >>> 0;
+  }
+
+  /**
+   * Parse a user-supplied seed (number or numeric string)
+   *
+   * @returns Parsed seed, or null if the input is not a valid seed
+   */
+  public static parseSeed(input: unknown): number | null {
+    const value = typeof input === 'string' ? Number(input.trim()) : input;
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < 0 || value > 0xffffffff) {
+      return null;
+    }
+    return value >>> 0;
+  }
+
+  /**
+   * Next float in [0, 1)
+   */
+  public next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /**
+   * Next integer in [0, max)
+   */
+  public nextInt(max: number): number {
+    return Math.floor(this.next() * max);
+  }
+
+  /**
+   * Roll against a probability between 0 and 1
+   */
+  public chance(probability: number): boolean {
+    return this.next() < probability;
+  }
+
+  /**
+   * Pick a random element from a non-empty array
+   */
+  public pick<T>(items: readonly T[]): T {
+    return items[this.nextInt(items.length)];
+  }
+
+  /**
+   * Fisher-Yates shuffle (returns a new array, input untouched)
+   */
+  public shuffle<T>(items: readonly T[]): T[] {
+    const result = [...items];
+    for (let i = result.length - 1; i > 0; i--) {
+      const j = this.nextInt(i + 1);
+      [result[i], result[j]] = [result[j], result[i]];
+    }
+    return result;
+  }
+
+  /**
+   * Seed this generator was created with
+   */
+  public getSeed(): number {
+    return this.seed;
+  }
+
+  /**
+   * Internal generator state (for battle save/restore)
+   */
+  public getState(): number {
+    return this.state;
+  }
+
+  /**
+   * Restore a state previously returned by getState
+   */
+  public setState(state: number): void {
+    this.state = state >>> 0;
+  }
+}
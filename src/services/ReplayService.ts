@@ -0,0 +1,129 @@
+import { GameState } from '../core/GameState';
+import { commandFromRecord } from '../core/GameCommands';
+import { BattleReplay, REPLAY_VERSION } from '../models/Replay';
+import { isValidArmy } from '../models/WeaponStats';
+import { isValidBattleRules } from '../models/BattleRules';
+import { Logger } from '../utils/Logger';
+
+/**
+ * ReplayService - Replay Recording, Import/Export and Simulation
+ * Replays store only the seed and action log; states are rebuilt by re-running the actions
+ */
+export class ReplayService {
+  /**
+   * Build a replay from a finished battle
+   * 
+   * @param gameState State of the battle that just ended
+   * @param victor Winning side
+   * @returns Replay of every action taken during the battle
+   */
+  public static createReplay(gameState: GameState, victor: 'player' | 'ai'): BattleReplay {
+    return {
+      version: REPLAY_VERSION,
+      recordedAt: Date.now(),
+      seed: gameState.getSeed(),
+      playerArmy: [...gameState.playerArmy],
+      rules: { ...gameState.rules },
+      victor,
+      turnCount: gameState.turnCount,
+      actions: gameState.getActionLog()
+    };
+  }
+
+  /**
+   * Serialize a replay to a JSON string for sharing
+   */
+  public static toJson(replay: BattleReplay): string {
+    return JSON.stringify(replay);
+  }
+
+  /**
+   * Parse and validate a replay JSON string
+   * 
+   * @param json Replay file contents
+   * @returns Parsed replay
+   * @throws Error if the file is not a supported replay
+   */
+  public static fromJson(json: string): BattleReplay {
+    let replay: BattleReplay;
+    try {
+      replay = JSON.parse(json) as BattleReplay;
+    } catch {
+      throw new Error('Replay file is empty or malformed');
+    }
+    
+    if (!replay || typeof replay !== 'object') {
+      throw new Error('Replay file is empty or malformed');
+    }
+    if (replay.version !== REPLAY_VERSION) {
+      throw new Error(`Replay is from an incompatible version of the game (replay version ${replay.version}, this build plays version ${REPLAY_VERSION})`);
+    }
+    if (typeof replay.seed !== 'number' || !Array.isArray(replay.playerArmy) || !isValidArmy(replay.playerArmy) || !isValidBattleRules(replay.rules) || !Array.isArray(replay.actions)) {
+      throw new Error('Replay file is missing battle data');
+    }
+    
+    return replay;
+  }
+
+  /**
+   * Offer a replay to the user as a downloadable JSON file
+   */
+  public static download(replay: BattleReplay): void {
+    const blob = new Blob([this.toJson(replay)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `siege-tactics-replay-${replay.seed}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  /**
+   * Rebuild the battle state after the first `actionCount` actions
+   * 
+   * @param replay Replay to simulate
+   * @param actionCount Number of actions to apply
+   * @param gameState Optional state to reuse (it is fully re-initialized)
+   * @returns Simulated game state
+   */
+  public static simulate(replay: BattleReplay, actionCount: number, gameState: GameState = new GameState()): GameState {
+    gameState.initialize(replay.playerArmy, replay.seed, replay.rules);
+    
+    const count = Math.min(actionCount, replay.actions.length);
+    for (let i = 0; i < count; i++) {
+      this.applyAction(replay, i, gameState);
+    }
+    
+    return gameState;
+  }
+
+  /**
+   * Apply a single recorded action to a state that has replayed all previous actions
+   * 
+   * @returns True if the action was accepted
+   */
+  public static applyAction(replay: BattleReplay, index: number, gameState: GameState): boolean {
+    const record = replay.actions[index];
+    const result = gameState.dispatch(commandFromRecord(record));
+    
+    if (!result.success) {
+      Logger.warn(`Replay action ${index} (${record.type}) was rejected - replay may be out of sync`);
+    }
+    return result.success;
+  }
+
+  /**
+   * Action indices at which each turn begins (always starts with 0)
+   * Deployment counts as its own step before turn 1
+   */
+  public static getTurnStarts(replay: BattleReplay): number[] {
+    const starts = [0];
+    replay.actions.forEach((record, index) => {
+      const endsStep = record.type === 'endTurn' || record.type === 'startBattle';
+      if (endsStep && index + 1 < replay.actions.length) {
+        starts.push(index + 1);
+      }
+    });
+    return starts;
+  }
+}
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { VisionService } from './VisionService';
+import { RandomService } from './RandomService';
+import { HexTile } from '../models/HexTile';
+import { Obstacle } from '../models/Obstacle';
+import { HexCoordinate } from '../models/HexCoordinate';
+import { HexUtils } from '../utils/HexUtils';
+
+const origin = HexUtils.create(0, 0);
+
+/**
+ * Open battlefield with sight-blocking rocks on the given hexes
+ */
+function createBattlefield(rocks: HexCoordinate[]): Map<string, HexTile> {
+  const rng = new RandomService(1);
+  const battlefield = new Map<string, HexTile>();
+
+  HexUtils.getHexesInRange(origin, 4).forEach(coord => {
+    const tile = new HexTile(coord);
+    if (rocks.some(rock => HexUtils.equals(rock, coord))) {
+      tile.obstacle = new Obstacle('ROCK_LARGE', rng);
+    }
+    battlefield.set(HexUtils.toKey(coord), tile);
+  });
+
+  return battlefield;
+}
+
+describe('VisionService.hasLineOfSight', () => {
+  const vision = new VisionService();
+
+  it('always sees its own hex and adjacent hexes', () => {
+    const battlefield = createBattlefield(HexUtils.neighbors(origin));
+
+    expect(vision.hasLineOfSight(origin, origin, battlefield)).toBe(true);
+    HexUtils.neighbors(origin).forEach(neighbor => {
+      expect(vision.hasLineOfSight(origin, neighbor, battlefield)).toBe(true);
+    });
+  });
+
+  it('is not blocked by obstacles on either endpoint', () => {
+    const target = HexUtils.create(3, 0);
+    const battlefield = createBattlefield([origin, target]);
+
+    expect(vision.hasLineOfSight(origin, target, battlefield)).toBe(true);
+  });
+
+  it('is blocked by an obstacle strictly between the hexes', () => {
+    const battlefield = createBattlefield([HexUtils.create(1, 0)]);
+
+    expect(vision.hasLineOfSight(origin, HexUtils.create(3, 0), battlefield)).toBe(false);
+    expect(vision.hasLineOfSight(HexUtils.create(3, 0), origin, battlefield)).toBe(false);
+  });
+
+  it('sees along a hex edge when either side of the edge is clear', () => {
+    // (0,0) -> (1,1) runs between (1,0) and (0,1)
+    const target = HexUtils.create(1, 1);
+
+    expect(vision.hasLineOfSight(origin, target, createBattlefield([HexUtils.create(1, 0)]))).toBe(true);
+    expect(vision.hasLineOfSight(origin, target, createBattlefield([HexUtils.create(0, 1)]))).toBe(true);
+  });
+
+  it('is blocked along a hex edge when both sides are blocked', () => {
+    const battlefield = createBattlefield([HexUtils.create(1, 0), HexUtils.create(0, 1)]);
+
+    expect(vision.hasLineOfSight(origin, HexUtils.create(1, 1), battlefield)).toBe(false);
+    expect(vision.hasLineOfSight(HexUtils.create(1, 1), origin, battlefield)).toBe(false);
+  });
+});
@@ -2,6 +2,7 @@ import { HexCoordinate } from '../models/HexCoordinate';
 import { HexTile } from '../models/HexTile';
 import { Unit } from '../models/Unit';
 import { HexUtils } from '../utils/HexUtils';
+import { VisionSnapshot } from '../models/BattleSnapshot';
 
 /**
  * VisionService - Manages fog of war and tile visibility
@@ -24,6 +25,7 @@ export interface VisionData {
 export class VisionService {
   private visionData: VisionData;
   private visionRange: number = 4; // Default vision range in hexes
+  private revealAll: boolean = false; // Display-only omniscient view (replays)
 
   constructor() {
     this.visionData = {
@@ -61,7 +63,7 @@ export class VisionService {
       
       const visibleTiles = this.calculateVisibleTiles(
         unit.position,
-        this.visionRange,
+        this.getSightRange(unit, battlefield),
         battlefield
       );
       visibleTiles.forEach(key => {
@@ -76,7 +78,7 @@ export class VisionService {
       
       const visibleTiles = this.calculateVisibleTiles(
         unit.position,
-        this.visionRange,
+        this.getSightRange(unit, battlefield),
         battlefield
       );
       visibleTiles.forEach(key => {
@@ -86,9 +88,18 @@ export class VisionService {
     });
   }
 
+  /**
+   * Vision range for a unit - hilltops see further, forests less far
+   */
+  private getSightRange(unit: Unit, battlefield: Map<string, HexTile>): number {
+    const tile = battlefield.get(HexUtils.toKey(unit.position));
+    const modifier = tile ? tile.getTerrainStats().visionModifier : 0;
+    return Math.max(1, this.visionRange + modifier);
+  }
+
   /**
    * Calculate all tiles visible from a position
-   * Simple radial vision without obstacle blocking
+   * Tiles behind line-of-sight blocking obstacles stay hidden
    */
   private calculateVisibleTiles(
     origin: HexCoordinate,
@@ -104,7 +115,7 @@ export class VisionService {
     // Check all tiles within range
     battlefield.forEach((tile, key) => {
       const distance = HexUtils.distance(origin, tile.coordinate);
-      if (distance <= range) {
+      if (distance <= range && this.hasLineOfSight(origin, tile.coordinate, battlefield)) {
         visibleTiles.add(key);
       }
     });
@@ -112,6 +123,34 @@ export class VisionService {
     return visibleTiles;
   }
 
+  /**
+   * Check whether one hex can see another
+   * Only obstacles strictly between the two hexes block - a blocking obstacle
+   * is itself visible. When the line runs exactly along hex edges, the target
+   * is visible if either side of the edge is clear.
+   */
+  public hasLineOfSight(
+    from: HexCoordinate,
+    to: HexCoordinate,
+    battlefield: Map<string, HexTile>
+  ): boolean {
+    if (HexUtils.distance(from, to) <= 1) return true;
+
+    return this.isLineClear(HexUtils.lineDraw(from, to, 1e-6), battlefield) ||
+      this.isLineClear(HexUtils.lineDraw(from, to, -1e-6), battlefield);
+  }
+
+  private isLineClear(line: HexCoordinate[], battlefield: Map<string, HexTile>): boolean {
+    // Skip both endpoints
+    for (let i = 1; i < line.length - 1; i++) {
+      const tile = battlefield.get(HexUtils.toKey(line[i]));
+      if (tile?.obstacle?.blocksLineOfSight) {
+        return false;
+      }
+    }
+    return true;
+  }
+
   /**
    * Get visibility state for a tile from player's perspective
    */
@@ -161,6 +200,13 @@ export class VisionService {
     return this.visionData.playerVisibleTiles;
   }
 
+  /**
+   * Get all tiles the player has ever seen (includes currently visible)
+   */
+  public getPlayerExploredTiles(): Set<string> {
+    return this.visionData.playerExploredTiles;
+  }
+
   /**
    * Get all AI visible tiles
    */
@@ -182,6 +228,42 @@ export class VisionService {
     return this.visionRange;
   }
 
+  /**
+   * Toggle omniscient display mode
+   * Only affects what renderers show - game rules still use real vision
+   */
+  public setRevealAll(enabled: boolean): void {
+    this.revealAll = enabled;
+  }
+
+  public isRevealAll(): boolean {
+    return this.revealAll;
+  }
+
+  /**
+   * Export visible/explored sets for a battle save
+   */
+  public toSnapshot(): VisionSnapshot {
+    return {
+      playerVisibleTiles: Array.from(this.visionData.playerVisibleTiles),
+      playerExploredTiles: Array.from(this.visionData.playerExploredTiles),
+      aiVisibleTiles: Array.from(this.visionData.aiVisibleTiles),
+      aiExploredTiles: Array.from(this.visionData.aiExploredTiles)
+    };
+  }
+
+  /**
+   * Restore visible/explored sets from a battle save
+   */
+  public restoreSnapshot(snapshot: VisionSnapshot): void {
+    this.visionData = {
+      playerVisibleTiles: new Set(snapshot.playerVisibleTiles),
+      playerExploredTiles: new Set(snapshot.playerExploredTiles),
+      aiVisibleTiles: new Set(snapshot.aiVisibleTiles),
+      aiExploredTiles: new Set(snapshot.aiExploredTiles)
+    };
+  }
+
   /**
    * Reset all vision data (for new game)
    */
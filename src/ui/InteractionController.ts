@@ -5,7 +5,7 @@ import { HexUtils } from '../utils/HexUtils';
 import { PathfindingService } from '../services/PathfindingService';
 import { CombatService } from '../services/CombatService';
 import { Logger } from '../utils/Logger';
-import { EventBus } from '../core/EventBus';
+import { MoveCommand, RotateCommand, AttackCommand, BombardCommand, OverwatchCommand, FortifyCommand, ResupplyCommand, DeployUnitCommand } from '../core/GameCommands';
 
 /**
  * InteractionController - Handles mouse/touch input for game interactions
@@ -14,6 +14,20 @@ import { EventBus } from '../core/EventBus';
 export class InteractionController {
   private canvas: HTMLCanvasElement;
   private gameState: GameState;
+  
+  // Deployment drag-and-drop
+  private draggedUnit: Unit | null = null;
+  private suppressNextClick: boolean = false;
+  
+  // Bound handlers kept so destroy() can actually remove them
+  private onMouseMove = this.handleMouseMove.bind(this);
+  private onMouseDown = this.handleMouseDown.bind(this);
+  private onMouseUp = this.handleMouseUp.bind(this);
+  private onClick = this.handleClick.bind(this);
+  private onMouseLeave = this.handleMouseLeave.bind(this);
+  private onTouchStart = this.handleTouchStart.bind(this);
+  private onTouchMove = this.handleTouchMove.bind(this);
+  private onTouchEnd = this.handleTouchEnd.bind(this);
 
   constructor(canvas: HTMLCanvasElement, gameState: GameState) {
     this.canvas = canvas;
@@ -23,14 +37,16 @@ export class InteractionController {
 
   private setupEventListeners(): void {
     // Mouse events
-    this.canvas.addEventListener('mousemove', this.handleMouseMove.bind(this));
-    this.canvas.addEventListener('click', this.handleClick.bind(this));
-    this.canvas.addEventListener('mouseleave', this.handleMouseLeave.bind(this));
+    this.canvas.addEventListener('mousemove', this.onMouseMove);
+    this.canvas.addEventListener('mousedown', this.onMouseDown);
+    this.canvas.addEventListener('mouseup', this.onMouseUp);
+    this.canvas.addEventListener('click', this.onClick);
+    this.canvas.addEventListener('mouseleave', this.onMouseLeave);
     
     // Touch events for mobile
-    this.canvas.addEventListener('touchstart', this.handleTouchStart.bind(this), { passive: false });
-    this.canvas.addEventListener('touchmove', this.handleTouchMove.bind(this), { passive: false });
-    this.canvas.addEventListener('touchend', this.handleTouchEnd.bind(this), { passive: false });
+    this.canvas.addEventListener('touchstart', this.onTouchStart, { passive: false });
+    this.canvas.addEventListener('touchmove', this.onTouchMove, { passive: false });
+    this.canvas.addEventListener('touchend', this.onTouchEnd, { passive: false });
   }
 
   private handleMouseMove(event: MouseEvent): void {
@@ -49,8 +65,20 @@ export class InteractionController {
     }
   }
 
+  private handleMouseDown(event: MouseEvent): void {
+    this.startDeploymentDrag(this.getHexAt(event.clientX, event.clientY));
+  }
+
+  private handleMouseUp(event: MouseEvent): void {
+    if (this.finishDeploymentDrag(this.getHexAt(event.clientX, event.clientY))) {
+      // The click that follows this mouseup must not re-select anything
+      this.suppressNextClick = true;
+    }
+  }
+
   private handleMouseLeave(): void {
     this.gameState.hoveredHex = null;
+    this.draggedUnit = null;
   }
 
   private handleTouchStart(event: TouchEvent): void {
@@ -65,6 +93,7 @@ export class InteractionController {
       if (HexUtils.inBounds(hex, this.gameState.shrinkRadius)) {
         this.gameState.hoveredHex = hex;
       }
+      this.startDeploymentDrag(hex);
     }
   }
 
@@ -96,6 +125,7 @@ export class InteractionController {
       const hex = this.pixelToIsometricHex(x, y);
       
       if (!HexUtils.inBounds(hex, this.gameState.shrinkRadius)) {
+        this.draggedUnit = null;
         return;
       }
       
@@ -105,6 +135,13 @@ export class InteractionController {
         return;
       }
       
+      if (this.gameState.phase === 'deployment') {
+        if (!this.finishDeploymentDrag(hex)) {
+          this.handleDeploymentClick(hex);
+        }
+        return;
+      }
+      
       // Check if clicking on a player unit
       const clickedUnit = this.gameState.playerUnits.find(unit =>
         HexUtils.equals(unit.position, hex)
@@ -129,11 +166,17 @@ export class InteractionController {
           this.gameState
         );
         
-        if (enemyUnit) {
+        if (enemyUnit && this.gameState.visionService.isUnitVisibleToPlayer(enemyUnit)) {
           this.tryAttackUnit(hex);
           return;
         }
         
+        // Shell the hex instead (only where the unit can't move)
+        if (this.isBombardTarget(hex)) {
+          this.tryBombard(hex);
+          return;
+        }
+        
         // Otherwise try to move
         this.tryMoveUnit(hex);
       }
@@ -144,6 +187,11 @@ export class InteractionController {
   }
 
   private handleClick(event: MouseEvent): void {
+    if (this.suppressNextClick) {
+      this.suppressNextClick = false;
+      return;
+    }
+
     const rect = this.canvas.getBoundingClientRect();
     const x = event.clientX - rect.left - this.canvas.width / 2;
     const y = event.clientY - rect.top - this.canvas.height / 2;
@@ -160,6 +208,11 @@ export class InteractionController {
       return;
     }
 
+    if (this.gameState.phase === 'deployment') {
+      this.handleDeploymentClick(hex);
+      return;
+    }
+
     // Check if clicking on a player unit
     const clickedUnit = this.gameState.playerUnits.find(unit =>
       HexUtils.equals(unit.position, hex)
@@ -184,16 +237,85 @@ export class InteractionController {
         this.gameState
       );
 
-      if (enemyUnit) {
+      if (enemyUnit && this.gameState.visionService.isUnitVisibleToPlayer(enemyUnit)) {
         this.tryAttackUnit(hex);
         return;
       }
 
+      // Shell the hex instead (only where the unit can't move)
+      if (this.isBombardTarget(hex)) {
+        this.tryBombard(hex);
+        return;
+      }
+
       // Otherwise try to move
       this.tryMoveUnit(hex);
     }
   }
 
+  /**
+   * Deployment phase click: pick up a unit, then click a zone hex to place it
+   */
+  private handleDeploymentClick(hex: HexCoordinate): void {
+    const clickedUnit = this.gameState.playerUnits.find(unit =>
+      HexUtils.equals(unit.position, hex)
+    );
+
+    if (clickedUnit) {
+      if (this.gameState.selectedUnit && this.gameState.selectedUnit.id === clickedUnit.id) {
+        this.deselectUnit();
+      } else {
+        this.gameState.selectedUnit = clickedUnit;
+        Logger.info(`Selected ${clickedUnit.type} for deployment`);
+      }
+      return;
+    }
+
+    if (this.gameState.selectedUnit) {
+      this.tryDeployUnit(this.gameState.selectedUnit, hex);
+    }
+  }
+
+  /**
+   * Start dragging a friendly unit (deployment phase only)
+   */
+  private startDeploymentDrag(hex: HexCoordinate): void {
+    if (this.gameState.phase !== 'deployment' || this.gameState.isAnimating) {
+      return;
+    }
+
+    this.draggedUnit = this.gameState.playerUnits.find(unit =>
+      HexUtils.equals(unit.position, hex)
+    ) ?? null;
+  }
+
+  /**
+   * Drop the dragged unit on a hex
+   * 
+   * @returns True if the drag ended on another hex (handled as a drop, not a click)
+   */
+  private finishDeploymentDrag(hex: HexCoordinate): boolean {
+    const unit = this.draggedUnit;
+    this.draggedUnit = null;
+
+    if (!unit || this.gameState.phase !== 'deployment' || HexUtils.equals(unit.position, hex)) {
+      return false;
+    }
+
+    this.tryDeployUnit(unit, hex);
+    return true;
+  }
+
+  private tryDeployUnit(unit: Unit, destination: HexCoordinate): void {
+    const result = this.gameState.dispatch(new DeployUnitCommand(unit.id, destination));
+    if (!result.success) {
+      Logger.info('Units can only be deployed inside your zone');
+      return;
+    }
+
+    this.deselectUnit();
+  }
+
   private selectUnit(unitId: string): void {
     const unit = this.gameState.playerUnits.find(u => u.id === unitId);
 
@@ -217,7 +339,8 @@ export class InteractionController {
       this.gameState.validMoveHexes = PathfindingService.getReachableHexes(
         unit.position,
         unit.getRemainingMovement(),
-        this.gameState
+        this.gameState,
+        unit
       );
     } else {
       this.gameState.validMoveHexes = [];
@@ -253,40 +376,32 @@ export class InteractionController {
       return;
     }
 
-    // Check if destination is valid
-    const isValidMove = this.gameState.validMoveHexes.some(hex =>
-      HexUtils.equals(hex, destination)
-    );
-
-    if (!isValidMove) {
+    // Check the destination can be reached, and afforded
+    const plan = PathfindingService.planMove(unit.position, destination, Infinity, this.gameState, unit);
+    if (!plan) {
       Logger.info('Cannot move there');
       return;
     }
 
-    // Calculate movement cost (includes obstacle penalties)
-    const path = PathfindingService.findPath(unit.position, destination, this.gameState);
-    let movementCost = 0;
-    
-    // Calculate actual cost including obstacles
-    for (const hex of path) {
-      const tile = this.gameState.getTileAt(hex);
-      const obstacleCost = tile?.obstacle?.movementCost ?? 0;
-      movementCost += 1 + obstacleCost; // 1 base + obstacle penalty
+    if (plan.cost > unit.getRemainingMovement()) {
+      Logger.info(`Not enough movement (needs ${plan.cost}, ${unit.getRemainingMovement()} left)`);
+      return;
     }
 
-    // Move the unit
-    const oldPos = unit.position;
-    unit.position = destination;
-    unit.movementPointsUsed += movementCost;
-    unit.hasMovedThisTurn = true;
-
-    Logger.info(`Moved ${unit.type} from (${oldPos.q}, ${oldPos.r}) to (${destination.q}, ${destination.r}) - Used ${movementCost} movement (${unit.getRemainingMovement()} remaining)`);
-
-    // Emit event for move sound
-    EventBus.getInstance().emit('unitMoved', { unitId: unit.id, from: oldPos, to: destination });
+    const result = this.gameState.dispatch(new MoveCommand(unit.id, destination));
+    if (!result.success) {
+      Logger.info('Cannot move there');
+      return;
+    }
 
-    // Update fog of war after movement
-    this.gameState.updateVision();
+    // Enemy overwatch may have stopped (or destroyed) the unit on the way
+    if (result.reactions && result.reactions.length > 0) {
+      Logger.info(unit.isAlive() ? 'Move interrupted by overwatch fire!' : 'Unit destroyed by overwatch fire!');
+      if (!unit.isAlive()) {
+        this.deselectUnit();
+        return;
+      }
+    }
 
     // Update valid move/attack hexes for remaining movement
     this.updateValidHexes(unit);
@@ -307,7 +422,9 @@ export class InteractionController {
 
     // Check if attacker can still attack
     if (!attacker.canAttack()) {
-      Logger.info('Unit has already attacked this turn');
+      Logger.info(attacker.hasAttackedThisTurn
+        ? 'Unit has already attacked this turn'
+        : attacker.ammo === 0 ? 'Out of ammunition - resupply at a cart or castle' : 'Still reloading');
       return;
     }
 
@@ -323,15 +440,28 @@ export class InteractionController {
       return;
     }
 
+    if (!CombatService.isInFiringArc(attacker, targetUnit.position)) {
+      Logger.info('Target is outside the firing arc - turn the unit with Q/E');
+      return;
+    }
+
     // Execute attack
-    const result = CombatService.executeAttack(
-      attacker,
-      targetUnit,
-      this.gameState
+    const { success, attack: result } = this.gameState.dispatch(
+      new AttackCommand(attacker.id, targetUnit.id)
     );
 
-    if (result.success) {
-      Logger.info(`Attack successful! Dealt ${result.damage} damage`);
+    if (success && result) {
+      if (result.hit) {
+        Logger.info(`Attack ${result.critical ? 'critically hit' : 'hit'}! Dealt ${result.damage} damage`);
+      } else {
+        Logger.info('Attack missed!');
+      }
+      
+      if (result.returnFire) {
+        Logger.info(result.returnFire.hit
+          ? `Enemy returned fire for ${result.returnFire.damage} damage`
+          : 'Enemy returned fire and missed');
+      }
       
       if (result.targetDestroyed) {
         Logger.info('Enemy destroyed!');
@@ -342,9 +472,6 @@ export class InteractionController {
         }
       }
 
-      // After attacking, unit can no longer move
-      attacker.hasMovedThisTurn = true;
-
       // Clear selection and valid hexes
       this.gameState.selectedUnit = null;
       this.gameState.validMoveHexes = [];
@@ -354,6 +481,122 @@ export class InteractionController {
     }
   }
 
+  /**
+   * Hex under a client-space pointer position
+   */
+  private getHexAt(clientX: number, clientY: number): HexCoordinate {
+    const rect = this.canvas.getBoundingClientRect();
+    return this.pixelToIsometricHex(
+      clientX - rect.left - this.canvas.width / 2,
+      clientY - rect.top - this.canvas.height / 2
+    );
+  }
+
+  /**
+   * Check if clicking a hex should bombard it rather than move
+   */
+  private isBombardTarget(hex: HexCoordinate): boolean {
+    const unit = this.gameState.selectedUnit;
+    if (!unit) return false;
+
+    const isValidMove = this.gameState.validMoveHexes.some(moveHex => HexUtils.equals(moveHex, hex));
+    return !isValidMove && CombatService.canBombard(unit, hex, this.gameState);
+  }
+
+  private tryBombard(target: HexCoordinate): void {
+    if (!this.gameState.selectedUnit) return;
+
+    const { success, attack } = this.gameState.dispatch(
+      new BombardCommand(this.gameState.selectedUnit.id, target)
+    );
+
+    if (success) {
+      const splashCount = attack?.splashHits.length ?? 0;
+      Logger.info(attack?.hit
+        ? `Bombardment landed${splashCount > 0 ? ` - ${splashCount} unit(s) caught in the blast` : ''}`
+        : 'Bombardment missed');
+
+      // Clear selection and valid hexes
+      this.gameState.selectedUnit = null;
+      this.gameState.validMoveHexes = [];
+      this.gameState.validAttackHexes = [];
+    } else {
+      Logger.warn('Bombardment failed');
+    }
+  }
+
+  /**
+   * Put the selected unit on overwatch (uses up its turn)
+   */
+  public tryOverwatch(): void {
+    const unit = this.gameState.selectedUnit;
+    if (!unit || this.gameState.currentTurn !== 'player' || this.gameState.isAnimating) return;
+
+    if (!this.gameState.dispatch(new OverwatchCommand(unit.id)).success) {
+      Logger.info('Unit cannot fire this turn - nothing to hold for overwatch');
+      return;
+    }
+
+    this.deselectUnit();
+  }
+
+  /**
+   * Turn the selected unit 60° in place (costs movement)
+   *
+   * @param steps +1 to turn clockwise, -1 to turn counter-clockwise
+   */
+  public tryRotate(steps: number): void {
+    const unit = this.gameState.selectedUnit;
+    if (!unit || this.gameState.currentTurn !== 'player' || this.gameState.isAnimating) return;
+    if (this.gameState.phase !== 'battle') return;
+
+    const facing = (unit.facing + steps + 6) % 6;
+    if (!this.gameState.dispatch(new RotateCommand(unit.id, facing)).success) {
+      Logger.info(unit.hasAttackedThisTurn
+        ? 'Cannot turn after attacking'
+        : `Not enough movement to turn (needs ${unit.getRotationCost(facing)}, ${unit.getRemainingMovement()} left)`);
+      return;
+    }
+
+    // Turning changes both what the unit can reach and what it can hit
+    this.updateValidHexes(unit);
+  }
+
+  /**
+   * Dig the selected unit in on its hex (uses up its turn)
+   */
+  public tryFortify(): void {
+    const unit = this.gameState.selectedUnit;
+    if (!unit || this.gameState.currentTurn !== 'player' || this.gameState.isAnimating) return;
+
+    if (!this.gameState.dispatch(new FortifyCommand(unit.id)).success) {
+      Logger.info('Only units that have not moved or attacked this turn can fortify');
+      return;
+    }
+
+    this.deselectUnit();
+  }
+
+  /**
+   * Restock the selected unit's ammunition (uses up its turn)
+   */
+  public tryResupply(): void {
+    const unit = this.gameState.selectedUnit;
+    if (!unit || this.gameState.currentTurn !== 'player' || this.gameState.isAnimating) return;
+
+    if (!this.gameState.isNearSupply(unit.position)) {
+      Logger.info('Move next to a supply cart or castle to resupply');
+      return;
+    }
+
+    if (!this.gameState.dispatch(new ResupplyCommand(unit.id)).success) {
+      Logger.info('Cannot resupply this unit now');
+      return;
+    }
+
+    this.deselectUnit();
+  }
+
   /**
    * Convert isometric pixel position to hex coordinate
    * Matches the projection used in renderers
@@ -394,8 +637,13 @@ export class InteractionController {
   }
 
   public destroy(): void {
-    this.canvas.removeEventListener('mousemove', this.handleMouseMove.bind(this));
-    this.canvas.removeEventListener('click', this.handleClick.bind(this));
-    this.canvas.removeEventListener('mouseleave', this.handleMouseLeave.bind(this));
+    this.canvas.removeEventListener('mousemove', this.onMouseMove);
+    this.canvas.removeEventListener('mousedown', this.onMouseDown);
+    this.canvas.removeEventListener('mouseup', this.onMouseUp);
+    this.canvas.removeEventListener('click', this.onClick);
+    this.canvas.removeEventListener('mouseleave', this.onMouseLeave);
+    this.canvas.removeEventListener('touchstart', this.onTouchStart);
+    this.canvas.removeEventListener('touchmove', this.onTouchMove);
+    this.canvas.removeEventListener('touchend', this.onTouchEnd);
   }
 }
@@ -6,8 +6,13 @@
 import { EventBus } from '../core/EventBus';
 import { PlayerProgress, ProgressManager } from '../models/PlayerProgress';
 import { ProgressRepository } from '../services/ProgressRepository';
-import { WEAPON_CONFIGS } from '../models/WeaponStats';
-import { WeaponType } from '../utils/Constants';
+import { BattleRepository } from '../services/BattleRepository';
+import { ReplayService } from '../services/ReplayService';
+import { BattleReplay, ReplayStatus } from '../models/Replay';
+import { BattleRules } from '../models/BattleRules';
+import { WEAPON_CONFIGS, WeaponStats, ARMOR_CLASS_LABELS, DAMAGE_TYPE_LABELS, getArmorMultiplier, getArmyCost } from '../models/WeaponStats';
+import { ArmorClass, BattlePhase, CONSTANTS, WeaponType } from '../utils/Constants';
+import { GameState } from '../core/GameState';
 import { Logger } from '../utils/Logger';
 
 export class UIController {
@@ -16,7 +21,8 @@ export class UIController {
   private battleUIEl: HTMLElement | null;
   private victoryScreenEl: HTMLElement | null;
   private helpOverlayEl: HTMLElement | null;
-  private selectedWeapon: WeaponType = 'catapult';
+  private selectedArmy: WeaponType[] = ['catapult'];
+  private lastReplay: BattleReplay | null = null;
 
   constructor() {
     this.eventBus = EventBus.getInstance();
@@ -32,8 +38,13 @@ export class UIController {
   private setupEventListeners(): void {
     // Main Menu
     document.getElementById('start-battle-btn')?.addEventListener('click', () => {
-      this.eventBus.emit('startBattle', this.selectedWeapon);
-      (window as any).siegeTactics?.startBattle(this.selectedWeapon);
+      if (this.selectedArmy.length === 0) return;
+      this.eventBus.emit('startBattle', this.selectedArmy);
+      (window as any).siegeTactics?.startBattle([...this.selectedArmy], undefined, this.getBattleRules());
+    });
+
+    document.getElementById('continue-battle-btn')?.addEventListener('click', () => {
+      (window as any).siegeTactics?.continueBattle();
     });
 
     document.getElementById('help-btn')?.addEventListener('click', () => {
@@ -41,11 +52,31 @@ export class UIController {
     });
 
     // Battle UI
+    document.getElementById('begin-battle-btn')?.addEventListener('click', () => {
+      this.eventBus.emit('deploymentConfirmed');
+    });
+
     document.getElementById('end-turn-btn')?.addEventListener('click', () => {
       Logger.info('Player ending turn...');
       this.eventBus.emit('turnEnded');
     });
 
+    document.getElementById('undo-btn')?.addEventListener('click', () => {
+      this.eventBus.emit('undoRequested');
+    });
+
+    document.getElementById('resupply-btn')?.addEventListener('click', () => {
+      this.eventBus.emit('resupplyRequested');
+    });
+
+    document.getElementById('overwatch-btn')?.addEventListener('click', () => {
+      this.eventBus.emit('overwatchRequested');
+    });
+
+    document.getElementById('fortify-btn')?.addEventListener('click', () => {
+      this.eventBus.emit('fortifyRequested');
+    });
+
     document.getElementById('pause-btn')?.addEventListener('click', () => {
       this.showPauseMenu();
     });
@@ -55,6 +86,13 @@ export class UIController {
       this.hidePauseMenu();
     });
 
+    document.getElementById('save-quit-btn')?.addEventListener('click', () => {
+      if ((window as any).siegeTactics?.saveAndQuit()) {
+        this.hidePauseMenu();
+        this.showMainMenu(ProgressRepository.load());
+      }
+    });
+
     document.getElementById('quit-to-menu-btn')?.addEventListener('click', () => {
       this.hidePauseMenu();
       (window as any).siegeTactics?.endBattle();
@@ -68,7 +106,7 @@ export class UIController {
 
     // Victory Screen
     document.getElementById('rematch-btn')?.addEventListener('click', () => {
-      (window as any).siegeTactics?.startBattle(this.selectedWeapon);
+      (window as any).siegeTactics?.startBattle([...this.selectedArmy], undefined, this.getBattleRules());
     });
 
     document.getElementById('main-menu-btn')?.addEventListener('click', () => {
@@ -76,6 +114,58 @@ export class UIController {
       this.showMainMenu(ProgressRepository.load());
     });
 
+    // Replays (victory screen)
+    document.getElementById('watch-replay-btn')?.addEventListener('click', () => {
+      if (this.lastReplay) {
+        (window as any).siegeTactics?.watchReplay(this.lastReplay);
+      }
+    });
+
+    document.getElementById('export-replay-btn')?.addEventListener('click', () => {
+      if (this.lastReplay) {
+        ReplayService.download(this.lastReplay);
+      }
+    });
+
+    const importInput = document.getElementById('import-replay-input') as HTMLInputElement | null;
+    document.getElementById('import-replay-btn')?.addEventListener('click', () => {
+      importInput?.click();
+    });
+
+    importInput?.addEventListener('change', () => {
+      const file = importInput.files?.[0];
+      importInput.value = '';
+      if (file) {
+        this.importReplay(file);
+      }
+    });
+
+    // Replay viewer controls
+    document.getElementById('replay-prev-btn')?.addEventListener('click', () => {
+      (window as any).siegeTactics?.replayViewer?.stepBack();
+    });
+
+    document.getElementById('replay-play-btn')?.addEventListener('click', () => {
+      (window as any).siegeTactics?.replayViewer?.togglePlay();
+    });
+
+    document.getElementById('replay-next-btn')?.addEventListener('click', () => {
+      (window as any).siegeTactics?.replayViewer?.stepForward();
+    });
+
+    document.getElementById('replay-speed-btn')?.addEventListener('click', () => {
+      (window as any).siegeTactics?.replayViewer?.cycleSpeed();
+    });
+
+    document.getElementById('replay-fog-btn')?.addEventListener('click', () => {
+      (window as any).siegeTactics?.replayViewer?.toggleOmniscient();
+    });
+
+    document.getElementById('replay-exit-btn')?.addEventListener('click', () => {
+      (window as any).siegeTactics?.exitReplay();
+      this.showVictoryScreenAgain();
+    });
+
     // Help Overlay
     document.getElementById('close-help-btn')?.addEventListener('click', () => {
       this.hideHelp();
@@ -85,6 +175,15 @@ export class UIController {
     this.eventBus.on('gameEnded', this.handleGameEnded.bind(this));
     this.eventBus.on('playerTurnStarted', () => this.updateTurnIndicator('player'));
     this.eventBus.on('aiTurnStarted', () => this.updateTurnIndicator('ai'));
+    this.eventBus.on('gameInitialized', (state: GameState) => {
+      this.updateBattlePhase(state.phase);
+      if (state.phase === 'battle') {
+        this.updateTurnIndicator(state.currentTurn);
+      }
+    });
+    this.eventBus.on('battleStarted', () => this.updateBattlePhase('battle'));
+    this.eventBus.on('undoAvailabilityChanged', (canUndo: boolean) => this.updateUndoButton(canUndo));
+    this.eventBus.on('replayStatusChanged', (status: ReplayStatus) => this.updateReplayControls(status));
   }
 
   public showMainMenu(progress: PlayerProgress): void {
@@ -97,6 +196,12 @@ export class UIController {
       this.updateXPDisplay(progress);
       this.renderWeaponSelection(progress);
     }
+    
+    // Only offer "Continue Battle" when a save exists
+    const continueBtn = document.getElementById('continue-battle-btn');
+    if (continueBtn) {
+      continueBtn.style.display = BattleRepository.hasSave() ? 'inline-block' : 'none';
+    }
   }
 
   private updateXPDisplay(progress: PlayerProgress): void {
@@ -123,36 +228,99 @@ export class UIController {
     }
   }
 
+  /**
+   * Loadout builder - add or remove units of each unlocked weapon
+   * within the army point budget
+   */
   private renderWeaponSelection(progress: PlayerProgress): void {
     const container = document.getElementById('weapon-selection');
     if (!container) return;
 
     container.innerHTML = '';
 
+    // Drop weapons that are no longer available (e.g. progress was reset)
+    this.selectedArmy = this.selectedArmy.filter(type => progress.unlockedWeapons.includes(type));
+    const armyCost = getArmyCost(this.selectedArmy);
+    const armyFull = this.selectedArmy.length >= CONSTANTS.MAX_ARMY_SIZE;
+
     Object.values(WEAPON_CONFIGS).forEach(weapon => {
       const isUnlocked = progress.unlockedWeapons.includes(weapon.type);
+      const count = this.selectedArmy.filter(type => type === weapon.type).length;
+      const canAdd = isUnlocked && !armyFull && armyCost + weapon.cost <= CONSTANTS.ARMY_POINT_BUDGET;
       const card = document.createElement('div');
-      card.className = `weapon-card ${isUnlocked ? 'unlocked' : 'locked'} ${this.selectedWeapon === weapon.type ? 'selected' : ''}`;
+      card.className = `weapon-card ${isUnlocked ? 'unlocked' : 'locked'} ${count > 0 ? 'selected' : ''}`;
       
       card.innerHTML = `
         <div class="weapon-icon">${this.getWeaponIcon(weapon.type)}</div>
         <div class="weapon-name">${weapon.displayName}</div>
         <div class="weapon-description">${weapon.description}</div>
         <div class="weapon-stats-mini">
-          Range: ${weapon.attackRangeMin}-${weapon.attackRangeMax} | Damage: ${weapon.damage}
+          Range: ${weapon.attackRangeMin}-${weapon.attackRangeMax} | Damage: ${weapon.damage}<br>
+          Fire: ${weapon.fireMode === 'direct' ? 'Direct' : 'Indirect'} | Armor: ${ARMOR_CLASS_LABELS[weapon.armorClass]}
         </div>
-        ${!isUnlocked ? `<div class="unlock-requirement">🔒 Unlock at ${weapon.unlockXP} XP</div>` : ''}
+        ${this.renderMatchups(weapon)}
+        <div class="weapon-cost">Cost: ${weapon.cost} pts</div>
+        ${isUnlocked ? `
+          <div class="loadout-controls">
+            <button class="loadout-btn" data-action="remove" aria-label="Remove ${weapon.displayName}" ${count === 0 ? 'disabled' : ''}>-</button>
+            <span class="loadout-count">${count}</span>
+            <button class="loadout-btn" data-action="add" aria-label="Add ${weapon.displayName}" ${canAdd ? '' : 'disabled'}>+</button>
+          </div>
+        ` : `<div class="unlock-requirement">🔒 Unlock at ${weapon.unlockXP} XP</div>`}
       `;
 
-      if (isUnlocked) {
-        card.addEventListener('click', () => {
-          this.selectedWeapon = weapon.type;
-          this.renderWeaponSelection(progress);
-        });
-      }
+      card.querySelector('[data-action="add"]')?.addEventListener('click', () => {
+        this.selectedArmy.push(weapon.type);
+        this.renderWeaponSelection(progress);
+      });
+
+      card.querySelector('[data-action="remove"]')?.addEventListener('click', () => {
+        const index = this.selectedArmy.lastIndexOf(weapon.type);
+        if (index !== -1) {
+          this.selectedArmy.splice(index, 1);
+        }
+        this.renderWeaponSelection(progress);
+      });
 
       container.appendChild(card);
     });
+
+    this.updateArmyBudget(armyCost);
+  }
+
+  /**
+   * Strengths and weaknesses of a weapon's damage type against each armor class
+   */
+  private renderMatchups(weapon: WeaponStats): string {
+    const armorClasses = Object.keys(ARMOR_CLASS_LABELS) as ArmorClass[];
+    const listBy = (matches: (multiplier: number) => boolean) => armorClasses
+      .filter(armor => matches(getArmorMultiplier(weapon.damageType, armor)))
+      .map(armor => ARMOR_CLASS_LABELS[armor])
+      .join(', ');
+
+    const strong = listBy(multiplier => multiplier > 1);
+    const weak = listBy(multiplier => multiplier < 1);
+
+    return `
+      <div class="weapon-matchups">
+        ${DAMAGE_TYPE_LABELS[weapon.damageType]} damage<br>
+        ${strong ? `<span class="matchup-strong">Strong vs ${strong}</span><br>` : ''}
+        ${weak ? `<span class="matchup-weak">Weak vs ${weak}</span>` : ''}
+      </div>
+    `;
+  }
+
+  private updateArmyBudget(armyCost: number): void {
+    const budgetEl = document.getElementById('army-budget');
+    if (budgetEl) {
+      budgetEl.textContent = `Army Points: ${armyCost}/${CONSTANTS.ARMY_POINT_BUDGET} | Units: ${this.selectedArmy.length}/${CONSTANTS.MAX_ARMY_SIZE}`;
+      budgetEl.classList.toggle('full', armyCost >= CONSTANTS.ARMY_POINT_BUDGET);
+    }
+
+    const startBtn = document.getElementById('start-battle-btn') as HTMLButtonElement | null;
+    if (startBtn) {
+      startBtn.disabled = this.selectedArmy.length === 0;
+    }
   }
 
   private getWeaponIcon(type: WeaponType): string {
@@ -166,13 +334,92 @@ export class UIController {
 
   public showBattleUI(): void {
     this.hideAll();
+    this.updateUndoButton(false);
+    this.setReplayControlsVisible(false);
     if (this.battleUIEl) {
       this.battleUIEl.style.display = 'flex';
     }
   }
 
-  private showVictoryScreen(result: 'victory' | 'defeat', xpEarned: number, turnsTaken: number = 0, enemiesDestroyed: number = 0): void {
+  /**
+   * Battle screen with replay playback controls instead of battle actions
+   */
+  public showReplayUI(): void {
+    this.hideAll();
+    this.setReplayControlsVisible(true);
+    if (this.battleUIEl) {
+      this.battleUIEl.style.display = 'flex';
+    }
+  }
+
+  private setReplayControlsVisible(visible: boolean): void {
+    const battleActions = document.getElementById('battle-actions');
+    const replayControls = document.getElementById('replay-controls');
+    if (battleActions) battleActions.style.display = visible ? 'none' : 'flex';
+    if (replayControls) replayControls.style.display = visible ? 'flex' : 'none';
+  }
+
+  private updateReplayControls(status: ReplayStatus): void {
+    const playBtn = document.getElementById('replay-play-btn');
+    if (playBtn) {
+      playBtn.textContent = status.isPlaying ? '⏸ PAUSE' : '▶ PLAY';
+    }
+
+    const speedBtn = document.getElementById('replay-speed-btn');
+    if (speedBtn) {
+      speedBtn.textContent = `${status.speed}x`;
+    }
+
+    const fogBtn = document.getElementById('replay-fog-btn');
+    if (fogBtn) {
+      fogBtn.textContent = status.omniscient ? '👁 OMNISCIENT' : '👁 PLAYER FOG';
+    }
+
+    const indicator = document.getElementById('turn-indicator');
+    if (indicator) {
+      indicator.textContent = `REPLAY ${status.turn}/${status.totalTurns}`;
+      indicator.className = 'turn-indicator replay';
+    }
+  }
+
+  private importReplay(file: File): void {
+    file.text()
+      .then(json => {
+        this.lastReplay = ReplayService.fromJson(json);
+        this.showReplayImportError(null);
+        Logger.info(`Imported replay (seed ${this.lastReplay.seed})`);
+        (window as any).siegeTactics?.watchReplay(this.lastReplay);
+      })
+      .catch(error => {
+        Logger.error('Failed to import replay', error);
+        this.showReplayImportError(error instanceof Error ? error.message : 'Replay file could not be read');
+      });
+  }
+
+  /**
+   * Tell the player why an imported replay can't be watched (null hides the message)
+   */
+  private showReplayImportError(message: string | null): void {
+    const errorEl = document.getElementById('replay-import-error');
+    if (errorEl) {
+      errorEl.textContent = message ?? '';
+      errorEl.style.display = message ? 'block' : 'none';
+    }
+  }
+
+  /**
+   * Return from the replay viewer without re-awarding XP
+   */
+  private showVictoryScreenAgain(): void {
     this.hideAll();
+    if (this.victoryScreenEl) {
+      this.victoryScreenEl.style.display = 'flex';
+    }
+  }
+
+  private showVictoryScreen(result: 'victory' | 'defeat', xpEarned: number, turnsTaken: number = 0, enemiesDestroyed: number = 0, seed: number | null = null): void {
+    this.hideAll();
+    this.showReplayImportError(null);
     
     if (this.victoryScreenEl) {
       this.victoryScreenEl.style.display = 'flex';
@@ -198,6 +445,12 @@ export class UIController {
         enemiesEl.textContent = enemiesDestroyed.toString();
       }
       
+      // Show battle seed so the battlefield can be reproduced
+      const seedEl = document.getElementById('battle-seed');
+      if (seedEl) {
+        seedEl.textContent = seed !== null ? seed.toString() : '--';
+      }
+      
       // Update progress
       const progress = ProgressRepository.load();
       const manager = new ProgressManager(progress);
@@ -255,6 +508,12 @@ export class UIController {
     const pauseOverlay = document.getElementById('pause-overlay');
     if (pauseOverlay) {
       pauseOverlay.style.display = 'flex';
+      
+      // Saving is only possible on the player's turn
+      const saveBtn = document.getElementById('save-quit-btn') as HTMLButtonElement | null;
+      if (saveBtn) {
+        saveBtn.disabled = !(window as any).siegeTactics?.canSaveBattle();
+      }
       this.eventBus.emit('gamePaused');
     }
   }
@@ -267,6 +526,18 @@ export class UIController {
     }
   }
 
+  /**
+   * Optional rules picked on the main menu for the next match
+   */
+  private getBattleRules(): BattleRules {
+    const counterFireToggle = document.getElementById('counter-fire-toggle') as HTMLInputElement | null;
+    const zoneOfControlToggle = document.getElementById('zoc-toggle') as HTMLInputElement | null;
+    return {
+      counterFire: counterFireToggle?.checked ?? false,
+      zoneOfControl: zoneOfControlToggle?.checked ?? false
+    };
+  }
+
   private hideAll(): void {
     if (this.mainMenuEl) this.mainMenuEl.style.display = 'none';
     if (this.battleUIEl) this.battleUIEl.style.display = 'none';
@@ -281,14 +552,54 @@ export class UIController {
     }
   }
 
+  /**
+   * Swap the deployment controls for the regular turn controls
+   */
+  public updateBattlePhase(phase: BattlePhase): void {
+    const beginBtn = document.getElementById('begin-battle-btn');
+    const endTurnBtn = document.getElementById('end-turn-btn');
+    const resupplyBtn = document.getElementById('resupply-btn');
+    const overwatchBtn = document.getElementById('overwatch-btn');
+    const fortifyBtn = document.getElementById('fortify-btn');
+    if (beginBtn) beginBtn.style.display = phase === 'deployment' ? 'inline-block' : 'none';
+    if (endTurnBtn) endTurnBtn.style.display = phase === 'deployment' ? 'none' : 'inline-block';
+    if (resupplyBtn) resupplyBtn.style.display = phase === 'deployment' ? 'none' : 'inline-block';
+    if (overwatchBtn) overwatchBtn.style.display = phase === 'deployment' ? 'none' : 'inline-block';
+    if (fortifyBtn) fortifyBtn.style.display = phase === 'deployment' ? 'none' : 'inline-block';
+
+    if (phase === 'deployment') {
+      const indicator = document.getElementById('turn-indicator');
+      if (indicator) {
+        indicator.textContent = 'DEPLOYMENT';
+        indicator.className = 'turn-indicator deployment';
+      }
+    }
+  }
+
+  public updateUndoButton(canUndo: boolean): void {
+    const undoBtn = document.getElementById('undo-btn') as HTMLButtonElement | null;
+    if (undoBtn) {
+      undoBtn.disabled = !canUndo;
+    }
+  }
+
   private handleGameEnded(data: { victor: 'player' | 'ai'; state: any }): void {
     Logger.info('Game ended', data);
     
+    // A finished battle can no longer be continued
+    BattleRepository.clear();
+    
+    // Keep the finished battle for replay viewing/export
+    if (typeof data.state.getActionLog === 'function') {
+      this.lastReplay = ReplayService.createReplay(data.state, data.victor);
+    }
+    
     // Calculate XP earned only from enemies destroyed by player
     const enemiesDestroyed = data.state.enemiesDestroyedByPlayer || 0;
     const xpEarned = data.victor === 'player' ? enemiesDestroyed * 50 : 0;
     
     const result = data.victor === 'player' ? 'victory' : 'defeat';
-    this.showVictoryScreen(result, xpEarned, data.state.turnCount || 0, enemiesDestroyed);
+    const seed = typeof data.state.getSeed === 'function' ? data.state.getSeed() : null;
+    this.showVictoryScreen(result, xpEarned, data.state.turnCount || 0, enemiesDestroyed, seed);
   }
 }
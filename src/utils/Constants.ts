@@ -17,10 +17,53 @@ export const CONSTANTS = {
   XP_PER_KILL: 50,
   STARTING_HEALTH: 100,
   MIN_DAMAGE: 1, // Minimum damage per attack
+  BLIND_FIRE_DAMAGE_MULTIPLIER: 0.5, // Indirect fire at targets no friendly unit can see
+  CRIT_DAMAGE_MULTIPLIER: 1.5,
+  COUNTER_FIRE_DAMAGE_MULTIPLIER: 0.5, // Return fire (optional rule) hits for half damage
+  KNOCKBACK_DAMAGE_THRESHOLD: 45, // Hits dealing at least this much push the target back a hex
+  KNOCKBACK_COLLISION_DAMAGE: 10, // Extra damage when the push is blocked
+  ZOC_EXIT_COST: 1, // Extra movement to step out of an enemy's zone of control (optional rule)
+  ROTATION_COST: 0.5, // Movement points per 60° turn of a siege engine
+  REAR_ARC: 120, // Degrees behind a unit (centred on its back) where hits count as rear attacks
+  REAR_ATTACK_DAMAGE_BONUS: 0.25, // Extra damage for hitting a unit from the rear
   FOG_OF_WAR_RADIUS: 4, // Hexes
   SHRINK_INTERVAL: 5, // Turns
   MIN_SHRINK_RADIUS: 5, // Hexes
   
+  // Terrain
+  HILL_COUNT: 3, // Hills raised on each battlefield
+  MAX_ELEVATION: 2, // Height of the ground under a hill's peak (hilltop terrain adds its own)
+  RIVER_BAND: 1, // Rows either side of the centre line the river may wander
+  BRIDGE_COUNT: 2, // Crossings over the river (one carries the main road)
+  MUD_CHANCE: 0.3, // Chance each riverbank hex is churned to mud
+  FOREST_COUNT: 2, // Forest patches grown on each battlefield
+  ELEVATION_RANGE_BONUS: 1, // Extra max range per level of height advantage
+  ELEVATION_DAMAGE_BONUS: 0.1, // Extra damage per level of height advantage
+  ADJACENT_COVER_FACTOR: 0.5, // Share of an obstacle's cover given to neighbouring hexes
+  ELEVATION_STEP_HEIGHT: 6, // Pixels each elevation level raises a hex
+  FORTIFY_DAMAGE_REDUCTION: 0.1, // Damage absorbed per level of fortification
+  MAX_FORTIFY_LEVEL: 3, // Consecutive fortify turns that still add protection
+  
+  // Status Effects
+  BURN_DAMAGE: 8, // Damage at the start of each of the unit's turns
+  BURN_DURATION: 3, // Turns
+  STUN_DURATION: 1, // Turns (a stunned unit can't move or attack)
+  SLOW_DURATION: 2, // Turns
+  SLOW_MOVEMENT_MULTIPLIER: 0.5,
+  TREE_BURN_DURATION: 3, // Rounds a burning tree keeps burning
+  FIRE_SPREAD_CHANCE: 0.35, // Per neighbouring tree, each round
+  FLAME_FRAME_DURATION: 120, // ms per flame animation frame
+  
+  // Army Composition
+  ARMY_POINT_BUDGET: 10, // Points available for each side's loadout
+  MAX_ARMY_SIZE: 4, // Units per side
+  DEPLOYMENT_ZONE_RADIUS: 2, // Hexes around each side's anchor
+  DEPLOYMENT_ANCHORS: {
+    player: { q: -3, r: 5 }, // Bottom of the map
+    ai: { q: 3, r: -5 } // Top of the map
+  },
+  SUPPLY_RANGE: 1, // Hexes from a supply cart or castle a unit can resupply
+  
   // Weapon Unlock Thresholds
   BALLISTA_UNLOCK_XP: 100,
   TREBUCHET_UNLOCK_XP: 300,
@@ -50,8 +93,15 @@ export const CONSTANTS = {
   
   // LocalStorage Keys
   STORAGE_KEY: 'siege_tactics_progress',
+  BATTLE_SAVE_KEY: 'siege_tactics_battle_save',
 } as const;
 
 export type WeaponType = 'catapult' | 'ballista' | 'trebuchet';
 export type PlayerType = 'player' | 'ai';
-export type ObstacleType = 'ROCK_LARGE' | 'ROCK_SMALL' | 'TREE' | 'RUIN' | 'CASTLE' | 'CHURCH';
+export type BattlePhase = 'deployment' | 'battle';
+export type FireMode = 'direct' | 'indirect'; // Direct fire needs a clear line to the target
+export type DamageType = 'pierce' | 'impact' | 'crush'; // What a weapon's projectiles do on impact
+export type ArmorClass = 'light' | 'medium' | 'heavy' | 'fortified'; // Fortified = buildings
+export type StatusEffectType = 'burning' | 'stunned' | 'slowed';
+export type TerrainType = 'grass' | 'forest' | 'hill' | 'water' | 'road' | 'mud' | 'bridge';
+export type ObstacleType = 'ROCK_LARGE' | 'ROCK_SMALL' | 'TREE' | 'RUIN' | 'CASTLE' | 'CHURCH' | 'RUBBLE' | 'SUPPLY_CART';
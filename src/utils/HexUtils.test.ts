@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { HexUtils } from './HexUtils';
+import { HexCoordinate } from '../models/HexCoordinate';
+
+const origin = HexUtils.create(0, 0);
+
+// Compare by key - rounding can produce -0, which deep equality tells apart from 0
+const keys = (line: HexCoordinate[]) => line.map(hex => HexUtils.toKey(hex));
+
+describe('HexUtils.lineDraw', () => {
+  it('returns just the hex for a line to itself', () => {
+    expect(keys(HexUtils.lineDraw(origin, origin))).toEqual(['0,0']);
+  });
+
+  it('includes both endpoints of a line between adjacent hexes', () => {
+    HexUtils.neighbors(origin).forEach(neighbor => {
+      expect(keys(HexUtils.lineDraw(origin, neighbor))).toEqual(keys([origin, neighbor]));
+    });
+  });
+
+  it('steps one adjacent hex at a time from start to end', () => {
+    HexUtils.getHexesInRange(origin, 5).forEach(target => {
+      const line = HexUtils.lineDraw(origin, target);
+      expect(line).toHaveLength(HexUtils.distance(origin, target) + 1);
+      expect(HexUtils.equals(line[0], origin)).toBe(true);
+      expect(HexUtils.equals(line[line.length - 1], target)).toBe(true);
+
+      for (let i = 1; i < line.length; i++) {
+        expect(HexUtils.distance(line[i - 1], line[i])).toBe(1);
+      }
+    });
+  });
+
+  it('keeps the endpoints whichever way the line is nudged', () => {
+    HexUtils.getHexesInRange(origin, 4).forEach(target => {
+      [1e-6, -1e-6].forEach(nudge => {
+        const line = HexUtils.lineDraw(origin, target, nudge);
+        expect(HexUtils.equals(line[0], origin)).toBe(true);
+        expect(HexUtils.equals(line[line.length - 1], target)).toBe(true);
+      });
+    });
+  });
+
+  it('resolves a line running along a hex edge to opposite sides for opposite nudges', () => {
+    // (0,0) -> (1,1) passes exactly between (1,0) and (0,1)
+    const target = HexUtils.create(1, 1);
+    const above = HexUtils.lineDraw(origin, target, 1e-6);
+    const below = HexUtils.lineDraw(origin, target, -1e-6);
+
+    expect(above).toHaveLength(3);
+    expect(below).toHaveLength(3);
+    expect(keys([above[1], below[1]]).sort()).toEqual(['0,1', '1,0']);
+  });
+
+  it('gives the same line for both nudges when it does not touch an edge', () => {
+    const target = HexUtils.create(3, 0);
+
+    expect(keys(HexUtils.lineDraw(origin, target, 1e-6))).toEqual(keys(HexUtils.lineDraw(origin, target, -1e-6)));
+  });
+});
@@ -76,6 +76,86 @@ export class HexUtils {
     return results;
   }
 
+  /**
+   * Get the hexes on a straight line between two hexes (both ends included)
+   * Endpoints are nudged slightly so lines running exactly along a hex edge
+   * resolve consistently - pass a negative nudge to get the line on the other side
+   */
+  static lineDraw(a: HexCoordinate, b: HexCoordinate, nudge: number = 1e-6): HexCoordinate[] {
+    const steps = this.distance(a, b);
+    const start = { q: a.q + nudge, r: a.r + nudge, s: a.s - 2 * nudge };
+    const end = { q: b.q + nudge, r: b.r + nudge, s: b.s - 2 * nudge };
+    const results: HexCoordinate[] = [];
+
+    for (let i = 0; i <= steps; i++) {
+      const t = steps === 0 ? 0 : i / steps;
+      results.push(this.hexRound({
+        q: start.q + (end.q - start.q) * t,
+        r: start.r + (end.r - start.r) * t,
+        s: start.s + (end.s - start.s) * t
+      }));
+    }
+
+    return results;
+  }
+
+  /**
+   * Neighbor of a hex one step further along the straight line from another
+   * hex - where a hit from `from` pushes a unit standing on `hex`
+   */
+  static stepAway(from: HexCoordinate, hex: HexCoordinate, nudge: number = 1e-6): HexCoordinate {
+    const steps = this.distance(from, hex);
+    if (steps === 0) return hex;
+
+    return this.hexRound({
+      q: hex.q + (hex.q - from.q) / steps + nudge,
+      r: hex.r + (hex.r - from.r) / steps + nudge,
+      s: hex.s + (hex.s - from.s) / steps - 2 * nudge
+    });
+  }
+
+  /**
+   * Direction from one hex to another in degrees, measured on the flat
+   * (unprojected) grid: 0 = east, increasing clockwise, range -180 to 180
+   */
+  static bearing(from: HexCoordinate, to: HexCoordinate): number {
+    const dq = to.q - from.q;
+    const dr = to.r - from.r;
+    return Math.atan2(1.5 * dr, Math.sqrt(3) * (dq + dr / 2)) * 180 / Math.PI;
+  }
+
+  /**
+   * Bearing a unit faces - facings index the directions of neighbors()
+   * (0 = north-east, then clockwise in 60° steps)
+   */
+  static facingBearing(facing: number): number {
+    return (facing - 1) * 60;
+  }
+
+  /**
+   * Facing that points most directly at another hex
+   */
+  static facingTowards(from: HexCoordinate, to: HexCoordinate): number {
+    const facing = (Math.round(this.bearing(from, to) / 60) + 1) % 6;
+    return facing < 0 ? facing + 6 : facing;
+  }
+
+  /**
+   * Smallest angle between two bearings in degrees (0-180)
+   */
+  static angleBetween(a: number, b: number): number {
+    const diff = Math.abs(a - b) % 360;
+    return diff > 180 ? 360 - diff : diff;
+  }
+
+  /**
+   * 60° turns needed to rotate from one facing to another (0-3)
+   */
+  static rotationSteps(from: number, to: number): number {
+    const diff = Math.abs(from - to) % 6;
+    return Math.min(diff, 6 - diff);
+  }
+
   /**
    * Convert hex coordinate to pixel position (for rendering)
    */
@@ -0,0 +1,73 @@
+/**
+ * MinHeap - Binary Heap Priority Queue
+ * Pops integer items in ascending priority order (used by pathfinding)
+ * Items pushed with equal priority pop in a fixed order, so searches are deterministic
+ */
+export class MinHeap {
+  private items: number[] = [];
+  private priorities: number[] = [];
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  /**
+   * Add an item - the same item may be pushed again with a lower priority
+   * (callers skip stale entries when they pop)
+   */
+  push(item: number, priority: number): void {
+    this.items.push(item);
+    this.priorities.push(priority);
+    this.siftUp(this.items.length - 1);
+  }
+
+  /**
+   * Remove and return the item with the lowest priority
+   */
+  pop(): number | undefined {
+    if (this.items.length === 0) return undefined;
+
+    const top = this.items[0];
+    const lastItem = this.items.pop()!;
+    const lastPriority = this.priorities.pop()!;
+
+    if (this.items.length > 0) {
+      this.items[0] = lastItem;
+      this.priorities[0] = lastPriority;
+      this.siftDown(0);
+    }
+
+    return top;
+  }
+
+  private siftUp(index: number): void {
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (this.priorities[parent] <= this.priorities[index]) break;
+      this.swap(index, parent);
+      index = parent;
+    }
+  }
+
+  private siftDown(index: number): void {
+    const length = this.items.length;
+
+    while (true) {
+      const left = index * 2 + 1;
+      const right = left + 1;
+      let smallest = index;
+
+      if (left < length && this.priorities[left] < this.priorities[smallest]) smallest = left;
+      if (right < length && this.priorities[right] < this.priorities[smallest]) smallest = right;
+      if (smallest === index) break;
+
+      this.swap(index, smallest);
+      index = smallest;
+    }
+  }
+
+  private swap(a: number, b: number): void {
+    [this.items[a], this.items[b]] = [this.items[b], this.items[a]];
+    [this.priorities[a], this.priorities[b]] = [this.priorities[b], this.priorities[a]];
+  }
+}